@@ -0,0 +1,321 @@
+import type { Awaitable } from "./types";
+
+/**
+ * Get the token of Bearer auth, `refresh` is `true` when the last token
+ * is rejected by a 401 response, so that a new token should be issued.
+ */
+export type TokenProvider = (context: {
+  refresh: boolean;
+}) => Awaitable<string>;
+
+/**
+ * Credentials of Basic, Bearer or Digest auth.
+ * Digest auth with MD5 (the default algorithm) or SHA-512-256 needs `node:crypto`,
+ * so only SHA-256 is supported in browsers and edge runtimes without it.
+ */
+export type AuthOptions =
+  | { type: "basic"; username: string; password: string }
+  | { type: "bearer"; token: string | TokenProvider }
+  | { type: "digest"; username: string; password: string };
+
+/**
+ * Digest algorithms in the order of preference.
+ * @see {@link https://www.rfc-editor.org/rfc/rfc7616.html#section-3.7}
+ */
+const DIGEST_ALGORITHMS = [
+  "SHA-256",
+  "SHA-256-sess",
+  "SHA-512-256",
+  "SHA-512-256-sess",
+  "MD5",
+  "MD5-sess",
+];
+
+interface DigestChallenge {
+  realm: string;
+  nonce: string;
+  opaque?: string;
+  algorithm: string;
+  qop?: "auth" | "auth-int";
+  userhash: boolean;
+  /** The nonce count, i.e. times the nonce is used */
+  nc: number;
+}
+
+type Next = (request: Request) => Promise<Response>;
+
+const setAuthorization = (request: Request, authorization: string) => {
+  const headers = new Headers(request.headers);
+  headers.set("authorization", authorization);
+  return new Request(request, { headers });
+};
+
+/**
+ * Whether the response is from the origin of the request, i.e. not redirected to another origin,
+ * as credentials are only sent to the origin of the request.
+ */
+const isSameOrigin = (request: Request, response: Response) =>
+  !response.url || new URL(response.url).origin === new URL(request.url).origin;
+
+const toHex = (bytes: Uint8Array) =>
+  [...bytes].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+
+/**
+ * Encode a string in base64 as UTF-8.
+ */
+function base64(value: string) {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(value)) {
+    binary += String.fromCodePoint(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Hash the data with a digest algorithm in lower-case hex.
+ * Web Crypto is used for SHA-256, MD5 and SHA-512-256 need `node:crypto`.
+ *
+ * @throws {TypeError} If the algorithm is not supported by the runtime
+ */
+async function hash(algorithm: string, data: string | Uint8Array) {
+  const bytes =
+    typeof data === "string" ? new TextEncoder().encode(data) : data;
+  const name = algorithm.replace(/-sess$/i, "").toUpperCase();
+  if (name === "SHA-256" && globalThis.crypto?.subtle) {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      bytes as Uint8Array<ArrayBuffer>,
+    );
+    return toHex(new Uint8Array(digest));
+  }
+  let createHash: typeof import("node:crypto").createHash;
+  try {
+    ({ createHash } = await import("node:crypto"));
+  } catch (error) {
+    throw new TypeError(
+      `Digest auth with ${algorithm} needs node:crypto, which is not available in this runtime`,
+      { cause: error },
+    );
+  }
+  return createHash(name.replace("SHA-", "sha").toLowerCase())
+    .update(bytes)
+    .digest("hex");
+}
+
+/**
+ * Parse the challenges of a `WWW-Authenticate` header, scheme names are lower-cased.
+ * @see {@link https://www.rfc-editor.org/rfc/rfc9110.html#section-11.6.1}
+ */
+function parseChallenges(header: string) {
+  const challenges: Array<{ scheme: string; params: Record<string, string> }> =
+    [];
+  const pattern =
+    /([\w!#$%&'*+.^`|~-]+)(?:\s*=\s*("(?:[^"\\]|\\.)*"|[^\s,]*))?/g;
+  for (const [, name, value] of header.matchAll(pattern)) {
+    if (value === undefined) {
+      challenges.push({ scheme: name!.toLowerCase(), params: {} });
+    } else if (challenges.length > 0) {
+      challenges.at(-1)!.params[name!.toLowerCase()] = value.startsWith('"')
+        ? value.slice(1, -1).replaceAll(/\\(.)/g, "$1")
+        : value;
+    }
+  }
+  return challenges;
+}
+
+/**
+ * Get the first Digest challenge with a supported algorithm.
+ */
+function getDigestChallenge(
+  header: string | null,
+): DigestChallenge | undefined {
+  for (const { scheme, params } of parseChallenges(header || "")) {
+    if (scheme !== "digest" || !params.realm || !params.nonce) continue;
+    const algorithm = DIGEST_ALGORITHMS.find(
+      (a) => a.toLowerCase() === (params.algorithm || "MD5").toLowerCase(),
+    );
+    if (!algorithm) continue;
+    // "auth" is preferred, as "auth-int" needs the body
+    const qops = new Set(
+      (params.qop || "").split(",").map((qop) => qop.trim()),
+    );
+    let qop: DigestChallenge["qop"];
+    if (qops.has("auth")) qop = "auth";
+    else if (qops.has("auth-int")) qop = "auth-int";
+    return {
+      realm: params.realm,
+      nonce: params.nonce,
+      opaque: params.opaque,
+      algorithm,
+      qop,
+      userhash: params.userhash?.toLowerCase() === "true",
+      nc: 0,
+    };
+  }
+}
+
+const quote = (value: string) =>
+  `"${value.replaceAll(/["\\]/g, String.raw`\$&`)}"`;
+
+/**
+ * Add credentials to requests, and respond to the 401 challenges of the server.
+ *
+ * - Basic and static Bearer credentials are sent with every request.
+ * - A Bearer token provider is called once and the token is reused,
+ *   a 401 response refreshes the token once for all requests which used it,
+ *   and the request is replayed once with the new token.
+ * - Digest auth answers the challenge of a 401 response by replaying the request,
+ *   the challenge is reused by later requests to the same origin.
+ *
+ * Requests with an `Authorization` header are sent as is.
+ */
+export class Authenticator {
+  readonly options: AuthOptions;
+
+  private _token?: Promise<string>;
+  private _challenges = new Map<string, DigestChallenge>();
+
+  constructor(options: AuthOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Send the request with credentials.
+   *
+   * @param request The request to send
+   * @param next Send the request to the network
+   */
+  fetch(request: Request, next: Next): Promise<Response> {
+    if (request.headers.has("authorization")) return next(request);
+    const { options } = this;
+    switch (options.type) {
+      case "basic": {
+        const credentials = base64(`${options.username}:${options.password}`);
+        return next(setAuthorization(request, `Basic ${credentials}`));
+      }
+      case "bearer": {
+        return typeof options.token === "string"
+          ? next(setAuthorization(request, `Bearer ${options.token}`))
+          : this._bearer(request, next);
+      }
+      case "digest": {
+        return this._digest(request, next);
+      }
+    }
+  }
+
+  private _getToken(refresh: boolean) {
+    const provider = (this.options as { token: TokenProvider }).token;
+    const token = Promise.resolve().then(() => provider({ refresh }));
+    this._token = token;
+    // the next request asks for a token again if it is failed
+    token.catch(() => {
+      if (this._token === token) this._token = undefined;
+    });
+    return token;
+  }
+
+  private async _bearer(request: Request, next: Next) {
+    // concurrent requests share one pending token
+    const token = this._token || this._getToken(false);
+    const response = await next(
+      setAuthorization(request.clone(), `Bearer ${await token}`),
+    );
+    if (response.status !== 401 || !isSameOrigin(request, response)) {
+      return response;
+    }
+    await response.body?.cancel();
+    // the first rejected request refreshes the token,
+    // the others rejected with the same token wait for the refresh
+    const refreshed =
+      this._token && this._token !== token ? this._token : this._getToken(true);
+    return next(setAuthorization(request, `Bearer ${await refreshed}`));
+  }
+
+  private async _digest(request: Request, next: Next) {
+    const { origin } = new URL(request.url);
+    const cached = this._challenges.get(origin);
+    const response = await next(
+      cached
+        ? setAuthorization(
+            request.clone(),
+            await this._digestAuthorization(request, cached),
+          )
+        : request.clone(),
+    );
+    if (response.status !== 401 || !isSameOrigin(request, response)) {
+      return response;
+    }
+    const challenge = getDigestChallenge(
+      response.headers.get("www-authenticate"),
+    );
+    if (!challenge) {
+      this._challenges.delete(origin);
+      return response;
+    }
+    await response.body?.cancel();
+    this._challenges.set(origin, challenge);
+    return next(
+      setAuthorization(
+        request,
+        await this._digestAuthorization(request, challenge),
+      ),
+    );
+  }
+
+  /**
+   * Compute the `Authorization` header for a Digest challenge.
+   * @see {@link https://www.rfc-editor.org/rfc/rfc7616.html#section-3.4}
+   */
+  private async _digestAuthorization(
+    request: Request,
+    challenge: DigestChallenge,
+  ) {
+    const { username, password } = this.options as {
+      username: string;
+      password: string;
+    };
+    const { realm, nonce, algorithm, qop } = challenge;
+    const url = new URL(request.url);
+    const uri = `${url.pathname}${url.search}`;
+    const nc = (++challenge.nc).toString(16).padStart(8, "0");
+    const cnonce = toHex(crypto.getRandomValues(new Uint8Array(16)));
+
+    let ha1 = await hash(algorithm, `${username}:${realm}:${password}`);
+    if (algorithm.endsWith("-sess")) {
+      ha1 = await hash(algorithm, `${ha1}:${nonce}:${cnonce}`);
+    }
+    let a2 = `${request.method}:${uri}`;
+    if (qop === "auth-int") {
+      const body = new Uint8Array(await request.clone().arrayBuffer());
+      a2 += `:${await hash(algorithm, body)}`;
+    }
+    const ha2 = await hash(algorithm, a2);
+    const response = await hash(
+      algorithm,
+      // RFC 2069 compatibility without qop
+      qop
+        ? `${ha1}:${nonce}:${nc}:${cnonce}:${qop}:${ha2}`
+        : `${ha1}:${nonce}:${ha2}`,
+    );
+
+    const params = [
+      `username=${quote(
+        challenge.userhash
+          ? await hash(algorithm, `${username}:${realm}`)
+          : username,
+      )}`,
+      `realm=${quote(realm)}`,
+      `uri=${quote(uri)}`,
+      `algorithm=${algorithm}`,
+      `nonce=${quote(nonce)}`,
+      `response=${quote(response)}`,
+    ];
+    if (qop) params.push(`qop=${qop}`, `nc=${nc}`, `cnonce=${quote(cnonce)}`);
+    if (challenge.opaque !== undefined) {
+      params.push(`opaque=${quote(challenge.opaque)}`);
+    }
+    if (challenge.userhash) params.push("userhash=true");
+    return `Digest ${params.join(", ")}`;
+  }
+}
@@ -0,0 +1,81 @@
+import type { DelayFunction } from "./retry";
+
+/**
+ * Backoff strategies to be used as `RetryOptions.delay`.
+ *
+ * @see {@link https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/}
+ */
+export interface BackoffOptions {
+  /**
+   * delay before the first retry in ms
+   * @default {100}
+   */
+  base?: number;
+  /**
+   * multiplier of the delay for each retry
+   * @default {2}
+   */
+  factor?: number;
+  /**
+   * max delay in ms
+   * @default {30_000}
+   */
+  max?: number;
+  /**
+   * random source returning a number in [0, 1)
+   * @default {Math.random}
+   */
+  random?: () => number;
+}
+
+const resolveOptions = (options: BackoffOptions = {}) => ({
+  base: options.base ?? 100,
+  factor: options.factor ?? 2,
+  max: options.max ?? 30_000,
+  random: options.random ?? Math.random,
+});
+
+/**
+ * `base * factor ** (attemptedTimes - 1)`, capped at `max`
+ */
+export function exponential(options?: BackoffOptions): DelayFunction {
+  const { base, factor, max } = resolveOptions(options);
+  return (attemptedTimes) =>
+    Math.min(max, base * factor ** Math.max(0, attemptedTimes - 1));
+}
+
+/**
+ * A random delay between 0 and the exponential delay
+ */
+export function fullJitter(options?: BackoffOptions): DelayFunction {
+  const { random } = resolveOptions(options);
+  const delay = exponential(options);
+  return (attemptedTimes, previousDelay) =>
+    random() * delay(attemptedTimes, previousDelay);
+}
+
+/**
+ * Half of the exponential delay, plus a random delay between 0 and the other half
+ */
+export function equalJitter(options?: BackoffOptions): DelayFunction {
+  const { random } = resolveOptions(options);
+  const delay = exponential(options);
+  return (attemptedTimes, previousDelay) => {
+    const half = delay(attemptedTimes, previousDelay) / 2;
+    return half + random() * half;
+  };
+}
+
+/**
+ * A random delay between `base` and `factor` times of the previous delay, capped at `max`
+ *
+ * @note `factor` defaults to `3` for this strategy
+ */
+export function decorrelatedJitter(options?: BackoffOptions): DelayFunction {
+  const { base, max, random } = resolveOptions(options);
+  const factor = options?.factor ?? 3;
+  return (_attemptedTimes, previousDelay) => {
+    const upper = Math.max(base, (previousDelay || base) * factor);
+    return Math.min(max, base + random() * (upper - base));
+  };
+}
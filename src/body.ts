@@ -0,0 +1,34 @@
+/**
+ * Read a stream into bytes, stop reading once `limit` bytes are read.
+ *
+ * @returns The bytes read (may be longer than `limit`), and whether the stream is not fully read
+ */
+export async function readBytes(
+  stream: ReadableStream<Uint8Array>,
+  limit = Infinity,
+): Promise<{ bytes: Uint8Array<ArrayBuffer>; truncated: boolean }> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  let truncated = false;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.byteLength;
+    if (length > limit) {
+      truncated = true;
+      // do not await, cancelling a branch of a cloned body
+      // only resolves after the other branch is cancelled too
+      reader.cancel().catch(() => {});
+      break;
+    }
+  }
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return { bytes, truncated };
+}
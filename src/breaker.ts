@@ -0,0 +1,179 @@
+import { CircuitOpenError, TimeoutError } from "./error";
+import { RetryError } from "./retry";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /**
+   * Get the key of the circuit a request belongs to.
+   * @default {(request) => new URL(request.url).origin}
+   */
+  key?(request: Request): string;
+
+  /**
+   * The failure rate (0 to 1) in the window to open the circuit.
+   * @default {0.5}
+   */
+  failureThreshold?: number;
+
+  /**
+   * The minimum number of requests in the window before the circuit can be opened.
+   * @default {10}
+   */
+  minimumRequests?: number;
+
+  /**
+   * The sliding window in ms, where the failure rate is calculated.
+   * @default {60_000}
+   */
+  window?: number;
+
+  /**
+   * The time in ms before an open circuit lets a trial request through.
+   * @default {30_000}
+   */
+  cooldown?: number;
+
+  /**
+   * Decide whether a response is a failure, the default is 5xx and 429 responses.
+   * Thrown errors are always failures, except for aborts which are not timeouts.
+   */
+  isFailure?(response: Response): boolean;
+}
+
+interface Circuit {
+  state: CircuitState;
+  /** Times and outcomes of the requests in the window */
+  outcomes: Array<{ time: number; failed: boolean }>;
+  openedAt: number;
+  /** Whether the trial request of a half-open circuit is in flight */
+  trial: boolean;
+}
+
+const isFailure = (response: Response) =>
+  response.status >= 500 || response.status === 429;
+
+/**
+ * Stop sending requests to a failing service for a while.
+ *
+ * A closed circuit lets requests through, and opens once the failure rate is reached.
+ * An open circuit fails requests fast with a `CircuitOpenError`, and becomes half-open
+ * after the cooldown, which lets one trial request through to close or open it again.
+ */
+export class CircuitBreaker {
+  readonly options: Required<CircuitBreakerOptions>;
+
+  private _circuits = new Map<string, Circuit>();
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.options = {
+      key: (request) => new URL(request.url).origin,
+      failureThreshold: 0.5,
+      minimumRequests: 10,
+      window: 60_000,
+      cooldown: 30_000,
+      isFailure,
+      ...options,
+    };
+  }
+
+  /**
+   * Get the state of the circuit of a request or key.
+   */
+  state(request: Request | string): CircuitState {
+    const circuit = this._circuits.get(this._key(request));
+    if (!circuit) return "closed";
+    if (
+      circuit.state === "open" &&
+      Date.now() - circuit.openedAt >= this.options.cooldown
+    ) {
+      circuit.state = "half-open";
+    }
+    return circuit.state;
+  }
+
+  /**
+   * Send the request through the circuit.
+   *
+   * @param request The request to send
+   * @param next Send the request to the network
+   * @throws {CircuitOpenError} If the circuit is open, or a trial request is in flight
+   */
+  async fetch(
+    request: Request,
+    next: (request: Request) => Promise<Response>,
+  ): Promise<Response> {
+    const key = this._key(request);
+    const state = this.state(key);
+    const circuit = this._circuits.get(key);
+    if (circuit && (state === "open" || circuit.trial)) {
+      const elapsed = Date.now() - circuit.openedAt;
+      throw new CircuitOpenError(
+        key,
+        Math.max(this.options.cooldown - elapsed, 0),
+      );
+    }
+    // the request is the trial of a half-open circuit
+    const trial = !!circuit && state === "half-open";
+    if (circuit && trial) circuit.trial = true;
+
+    let response: Response;
+    try {
+      response = await next(request);
+    } catch (error) {
+      const { aborted, reason } = request.signal;
+      const timeout =
+        reason instanceof TimeoutError ||
+        (reason instanceof RetryError &&
+          reason.message === "ATTEMPT_TIMEOUT_REACHED");
+      // aborted by the caller, which is not caused by the service
+      if (aborted && !timeout) {
+        if (circuit && trial) circuit.trial = false;
+      } else {
+        this._record(key, true, trial);
+      }
+      throw error;
+    }
+    this._record(key, this.options.isFailure(response), trial);
+    return response;
+  }
+
+  private _key(request: Request | string) {
+    return typeof request === "string" ? request : this.options.key(request);
+  }
+
+  private _record(key: string, failed: boolean, trial: boolean) {
+    const now = Date.now();
+    let circuit = this._circuits.get(key);
+    if (!circuit) {
+      circuit = { state: "closed", outcomes: [], openedAt: 0, trial: false };
+      this._circuits.set(key, circuit);
+    }
+
+    if (trial) {
+      if (failed) {
+        circuit.state = "open";
+        circuit.openedAt = now;
+      } else {
+        this._circuits.delete(key);
+      }
+      circuit.trial = false;
+      return;
+    }
+    // requests sent before the circuit is opened
+    if (circuit.state !== "closed") return;
+
+    circuit.outcomes.push({ time: now, failed });
+    const start = now - this.options.window;
+    circuit.outcomes = circuit.outcomes.filter((o) => o.time > start);
+    const failures = circuit.outcomes.filter((o) => o.failed).length;
+    if (
+      circuit.outcomes.length >= this.options.minimumRequests &&
+      failures / circuit.outcomes.length >= this.options.failureThreshold
+    ) {
+      circuit.state = "open";
+      circuit.openedAt = now;
+      circuit.outcomes = [];
+    }
+  }
+}
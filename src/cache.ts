@@ -0,0 +1,413 @@
+import { readBytes } from "./body";
+import type { Awaitable, Nullable } from "./types";
+
+/**
+ * A stored response, which is plain data so that it can be serialized by stores.
+ */
+export interface CachedResponse {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Array<[string, string]>;
+  body: Uint8Array<ArrayBuffer>;
+  /**
+   * The values of the request headers listed in `Vary`, `null` for absent ones.
+   */
+  vary: Record<string, string | null>;
+  /**
+   * The time in ms the response is received, or revalidated.
+   */
+  responseTime: number;
+}
+
+/**
+ * Storage of cached responses, keyed by url,
+ * and a hash of the credentials of the request if it has any.
+ */
+export interface CacheStore {
+  get(key: string): Awaitable<CachedResponse | undefined>;
+  set(key: string, value: CachedResponse): Awaitable<void>;
+  delete(key: string): Awaitable<void>;
+}
+
+/**
+ * A store which keeps every response in memory.
+ */
+export class MemoryCacheStore implements CacheStore {
+  protected _entries = new Map<string, CachedResponse>();
+
+  get(key: string) {
+    return this._entries.get(key);
+  }
+
+  set(key: string, value: CachedResponse) {
+    this._entries.set(key, value);
+  }
+
+  delete(key: string) {
+    this._entries.delete(key);
+  }
+}
+
+/**
+ * A store which keeps at most `max` responses in memory,
+ * the least recently used one is evicted first.
+ */
+export class LRUCacheStore extends MemoryCacheStore {
+  constructor(readonly max = 100) {
+    super();
+  }
+
+  override get(key: string) {
+    const value = this._entries.get(key);
+    if (value) {
+      // move to the end as the most recently used
+      this._entries.delete(key);
+      this._entries.set(key, value);
+    }
+    return value;
+  }
+
+  override set(key: string, value: CachedResponse) {
+    this._entries.delete(key);
+    this._entries.set(key, value);
+    for (const oldest of this._entries.keys()) {
+      if (this._entries.size <= this.max) break;
+      this._entries.delete(oldest);
+    }
+  }
+}
+
+export interface CacheOptions {
+  /**
+   * Where responses are stored.
+   * @default {new MemoryCacheStore()}
+   */
+  store?: CacheStore;
+
+  /**
+   * Consider responses without explicit freshness fresh for 10% of the time
+   * since their `Last-Modified`.
+   * @default {false}
+   */
+  heuristic?: boolean;
+
+  /**
+   * Max size (in bytes) of a response body to be stored, larger responses are not stored.
+   * @default {10_485_760}
+   */
+  maxEntrySize?: number;
+}
+
+/**
+ * Parse a Cache-Control header, directive names are lowercased.
+ */
+export function parseCacheControl(header: Nullable<string>) {
+  const directives: Record<string, string | true> = {};
+  if (!header) return directives;
+  for (const part of header.split(",")) {
+    const [name, value] = part.split("=", 2).map((s) => s.trim());
+    if (!name) continue;
+    directives[name.toLowerCase()] =
+      value === undefined ? true : value.replace(/^"|"$/g, "");
+  }
+  return directives;
+}
+
+/**
+ * Parse a delta-seconds directive value.
+ */
+function seconds(value: string | true | undefined) {
+  if (typeof value !== "string") return;
+  const n = Number.parseInt(value, 10);
+  return Number.isNaN(n) ? undefined : Math.max(n, 0);
+}
+
+const parseDate = (value: Nullable<string>) => {
+  const time = value ? Date.parse(value) : Number.NaN;
+  return Number.isNaN(time) ? undefined : time;
+};
+
+/**
+ * Status codes which can be cached without explicit freshness.
+ * @see {@link https://www.rfc-editor.org/rfc/rfc9110#section-15.1}
+ */
+const HEURISTIC_STATUS_CODES = new Set([
+  200, 203, 204, 206, 300, 301, 308, 404, 405, 410, 414, 501,
+]);
+
+const UNSAFE_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+/**
+ * A private HTTP cache following the basics of RFC 9111.
+ * Only GET responses are stored, and unsafe requests invalidate the stored response of their url.
+ *
+ * @see {@link https://www.rfc-editor.org/rfc/rfc9111}
+ */
+export class HttpCache {
+  readonly store: CacheStore;
+  readonly heuristic: boolean;
+  readonly maxEntrySize: number;
+
+  constructor(options: CacheOptions = {}) {
+    this.store = options.store || new MemoryCacheStore();
+    this.heuristic = options.heuristic ?? false;
+    this.maxEntrySize = options.maxEntrySize ?? 10 * 1024 * 1024;
+  }
+
+  /**
+   * Send the request through the cache.
+   *
+   * @param request The request to send
+   * @param next Send the request to the network
+   * @returns A stored response if it is fresh or revalidated, the network response otherwise
+   */
+  async fetch(
+    request: Request,
+    next: (request: Request) => Promise<Response>,
+  ): Promise<Response> {
+    const method = request.method.toUpperCase();
+    const key = await cacheKey(request);
+    if (method !== "GET" || request.cache === "no-store") {
+      const response = await next(request);
+      // the stored response may be outdated by unsafe requests
+      if (UNSAFE_METHODS.has(method) && response.status < 400) {
+        await this.store.delete(key);
+      }
+      return response;
+    }
+
+    const requestCC = parseCacheControl(request.headers.get("cache-control"));
+    let stored =
+      request.cache === "reload" ? undefined : await this.store.get(key);
+    if (stored && !matchVary(stored, request)) stored = undefined;
+
+    if (stored) {
+      const age = this.age(stored);
+      const noCache =
+        request.cache === "no-cache" ||
+        "no-cache" in requestCC ||
+        request.headers.get("pragma") === "no-cache" ||
+        "no-cache" in parseCacheControl(header(stored, "cache-control"));
+      const maxAge = seconds(requestCC["max-age"]) ?? Infinity;
+      if (
+        request.cache === "force-cache" ||
+        (!noCache && age < this.lifetime(stored) && age <= maxAge)
+      ) {
+        return toResponse(stored, age);
+      }
+    }
+
+    // revalidate the stored response with its validators
+    let conditional = request;
+    if (stored && !hasConditions(request.headers)) {
+      const headers = new Headers(request.headers);
+      const etag = header(stored, "etag");
+      const lastModified = header(stored, "last-modified");
+      if (etag) headers.set("if-none-match", etag);
+      if (lastModified) headers.set("if-modified-since", lastModified);
+      conditional = new Request(request, { headers });
+    }
+
+    const response = await next(conditional);
+    if (stored && response.status === 304 && conditional !== request) {
+      const updated = revalidated(stored, response);
+      await this.store.set(key, updated);
+      return toResponse(updated, this.age(updated));
+    }
+    return this.save(key, request, response);
+  }
+
+  /**
+   * Store the response if it is cacheable, the body is stored once it is fully read,
+   * so that the response is returned before its body is received.
+   *
+   * @returns A response with the same body, which is teed to be stored
+   */
+  private async save(key: string, request: Request, response: Response) {
+    const requestCC = parseCacheControl(request.headers.get("cache-control"));
+    const responseCC = parseCacheControl(response.headers.get("cache-control"));
+    const vary = response.headers.get("vary");
+    if (
+      "no-store" in requestCC ||
+      "no-store" in responseCC ||
+      vary?.trim() === "*" ||
+      // a response to a request with credentials is only stored if it is allowed explicitly
+      // https://www.rfc-editor.org/rfc/rfc9111#section-3.5
+      (request.headers.has("authorization") &&
+        !(
+          "public" in responseCC ||
+          "s-maxage" in responseCC ||
+          "must-revalidate" in responseCC
+        )) ||
+      // a partial or an informational response
+      response.status === 206 ||
+      response.status < 200 ||
+      Number(response.headers.get("content-length")) > this.maxEntrySize
+    ) {
+      return response;
+    }
+    const stored: CachedResponse = {
+      url: response.url || request.url,
+      status: response.status,
+      statusText: response.statusText,
+      headers: [...response.headers],
+      body: new Uint8Array(),
+      vary: {},
+      responseTime: Date.now(),
+    };
+    if (
+      !(
+        this.lifetime(stored) > 0 ||
+        header(stored, "etag") ||
+        header(stored, "last-modified")
+      )
+    ) {
+      // neither fresh nor revalidatable
+      return response;
+    }
+    for (const name of vary?.split(",") || []) {
+      if (!name.trim()) continue;
+      stored.vary[name.trim().toLowerCase()] = request.headers.get(name.trim());
+    }
+    if (!response.body) {
+      await this.store.set(key, stored);
+      return response;
+    }
+
+    const [body, copy] = response.body.tee();
+    this.storeBody(key, stored, copy).catch(() => {});
+    const teed = new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+    Object.defineProperty(teed, "url", { value: response.url });
+    return teed;
+  }
+
+  /**
+   * Read the body and store the response, unless the body is larger than `maxEntrySize`.
+   */
+  private async storeBody(
+    key: string,
+    stored: CachedResponse,
+    body: ReadableStream<Uint8Array>,
+  ) {
+    const { bytes, truncated } = await readBytes(body, this.maxEntrySize);
+    if (truncated) return;
+    stored.body = bytes;
+    await this.store.set(key, stored);
+  }
+
+  /**
+   * The freshness lifetime in ms.
+   * @see {@link https://www.rfc-editor.org/rfc/rfc9111#section-4.2.1}
+   */
+  private lifetime(stored: CachedResponse) {
+    const cc = parseCacheControl(header(stored, "cache-control"));
+    const maxAge = seconds(cc["max-age"]);
+    if (maxAge !== undefined) return maxAge * 1000;
+    const date = parseDate(header(stored, "date")) ?? stored.responseTime;
+    const expires = header(stored, "expires");
+    if (expires !== undefined) {
+      // invalid dates like `0` mean already expired
+      return Math.max((parseDate(expires) ?? 0) - date, 0);
+    }
+    const lastModified = parseDate(header(stored, "last-modified"));
+    if (
+      this.heuristic &&
+      lastModified !== undefined &&
+      HEURISTIC_STATUS_CODES.has(stored.status)
+    ) {
+      return Math.max(date - lastModified, 0) / 10;
+    }
+    return 0;
+  }
+
+  /**
+   * The current age in ms.
+   * @see {@link https://www.rfc-editor.org/rfc/rfc9111#section-4.2.3}
+   */
+  private age(stored: CachedResponse) {
+    const ageValue = (seconds(header(stored, "age")) ?? 0) * 1000;
+    const date = parseDate(header(stored, "date")) ?? stored.responseTime;
+    const apparentAge = Math.max(stored.responseTime - date, 0);
+    return Math.max(apparentAge, ageValue) + Date.now() - stored.responseTime;
+  }
+}
+
+/**
+ * The url without the fragment, and a SHA-256 hash of the `Authorization`
+ * and `Cookie` headers if any, so that responses are not shared between users.
+ */
+async function cacheKey(request: Request) {
+  const { href, hash } = new URL(request.url);
+  const url = hash ? href.slice(0, -hash.length) : href;
+  const credentials = [
+    request.headers.get("authorization"),
+    request.headers.get("cookie"),
+  ];
+  if (!credentials.some(Boolean)) return url;
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(JSON.stringify(credentials)),
+  );
+  const hex = [...new Uint8Array(digest)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  return `${url} ${hex}`;
+}
+
+function header(stored: CachedResponse, name: string) {
+  for (const [key, value] of stored.headers) {
+    if (key === name) return value;
+  }
+}
+
+function matchVary(stored: CachedResponse, request: Request) {
+  for (const [name, value] of Object.entries(stored.vary)) {
+    if (request.headers.get(name) !== value) return false;
+  }
+  return true;
+}
+
+function hasConditions(headers: Headers) {
+  return (
+    headers.has("if-none-match") ||
+    headers.has("if-modified-since") ||
+    headers.has("if-match") ||
+    headers.has("if-unmodified-since")
+  );
+}
+
+/**
+ * Update the stored response with the headers of a 304 response.
+ * @see {@link https://www.rfc-editor.org/rfc/rfc9111#section-3.2}
+ */
+function revalidated(
+  stored: CachedResponse,
+  response: Response,
+): CachedResponse {
+  const headers = new Headers(stored.headers);
+  for (const [name, value] of response.headers) {
+    if (name === "content-length") continue;
+    headers.set(name, value);
+  }
+  // release the connection
+  response.body?.cancel().catch(() => {});
+  return { ...stored, headers: [...headers], responseTime: Date.now() };
+}
+
+const NULL_BODY_STATUS_CODES = new Set([101, 103, 204, 205, 304]);
+
+function toResponse(stored: CachedResponse, age?: number) {
+  const headers = new Headers(stored.headers);
+  if (age !== undefined) headers.set("age", String(Math.floor(age / 1000)));
+  const response = new Response(
+    NULL_BODY_STATUS_CODES.has(stored.status) ? undefined : stored.body,
+    { status: stored.status, statusText: stored.statusText, headers },
+  );
+  Object.defineProperty(response, "url", { value: stored.url });
+  return response;
+}
@@ -6,6 +6,14 @@
 // This implementation may not handle some edge case of the spec
 // See alternative library like [tough-cookie](https://github.com/salesforce/tough-cookie/blob/master/lib/cookie/cookie.ts)
 
+export type CookieSameSite = "Strict" | "Lax" | "None";
+
+/**
+ * The non-standard `Priority` attribute, which is used by Chromium based browsers
+ * to decide which cookies to evict first.
+ */
+export type CookiePriority = "Low" | "Medium" | "High";
+
 /**
  * Represents an HTTP Cookie.
  *
@@ -55,6 +63,7 @@ export interface Cookie {
    * The cookie's `Partitioned` attribute.
    * If `true`, the cookie will be only be included in the `Cookie` request header if
    * the domain it is embedded by matches the domain the cookie was originally set from.
+   * A partitioned cookie must also be `Secure`.
    *
    * Warning: This is an attribute that has not been fully standardized yet.
    * It may change in the future without following the semver semantics of the package.
@@ -67,15 +76,37 @@ export interface Cookie {
    * Allows servers to assert that a cookie ought not to
    * be sent along with cross-site requests.
    */
-  sameSite?: "Strict" | "Lax" | "None";
+  sameSite?: CookieSameSite;
+  /**
+   * The cookie's `Priority` attribute.
+   */
+  priority?: CookiePriority;
   /**
    * Additional key value pairs with the form "key=value".
    *
    * @default {[]}
    */
   unparsed?: string[];
+  /**
+   * Whether the cookie is only sent to the host which set it,
+   * i.e. it is set without a `Domain` attribute. Set by the cookie jar.
+   */
+  hostOnly?: boolean;
+  /**
+   * The time in UTC milliseconds the cookie is first stored,
+   * which orders cookies with paths of the same length. Set by the cookie jar.
+   */
+  creationTime?: number;
 }
 
+/**
+ * Serialize a cookie as the value of a `Set-Cookie` header.
+ * Attributes required by the `__Secure-` and `__Host-` prefixes and `Partitioned` are added.
+ *
+ * @param cookie The cookie
+ * @return The `Set-Cookie` value, or an empty string if the cookie has no name
+ * @throws {SyntaxError} If the name, value, domain or path is invalid
+ */
 export function cookieToString(cookie: Cookie): string {
   if (!cookie.name) {
     return "";
@@ -95,6 +126,9 @@ export function cookieToString(cookie: Cookie): string {
     cookie.secure = true;
     delete cookie.domain;
   }
+  if (cookie.partitioned) {
+    cookie.secure = true;
+  }
 
   if (cookie.secure) {
     out.push("Secure");
@@ -120,6 +154,9 @@ export function cookieToString(cookie: Cookie): string {
   if (cookie.sameSite) {
     out.push(`SameSite=${cookie.sameSite}`);
   }
+  if (cookie.priority) {
+    out.push(`Priority=${cookie.priority}`);
+  }
   if (cookie.path) {
     validatePath(cookie.path);
     // TODO: path may be normalized
@@ -287,7 +324,47 @@ export function deleteCookie(
   });
 }
 
-function parseSetCookie(value: string): Cookie | null {
+export interface ParseSetCookieOptions {
+  /**
+   * Throw a `SyntaxError` for an invalid cookie instead of ignoring it with a warning,
+   * invalid values of `Expires`, `Max-Age`, `SameSite` and `Priority` also throw.
+   * @default {false}
+   */
+  strict?: boolean;
+}
+
+/**
+ * Find the attribute value case-insensitively, e.g. `lax` is `Lax`.
+ */
+function parseEnum<T extends string>(values: readonly T[], value: string) {
+  return values.find((v) => v.toLowerCase() === value.trim().toLowerCase());
+}
+
+/**
+ * Parse the value of a `Set-Cookie` header.
+ *
+ * @param value The value of a `Set-Cookie` header
+ * @param options Parse options
+ * @return The cookie, or `null` if the cookie should be ignored
+ * @throws {SyntaxError} If the cookie is invalid in strict mode
+ */
+export function parseSetCookie(
+  value: string,
+  options: ParseSetCookieOptions = {},
+): Cookie | null {
+  const { strict } = options;
+  /** Ignore the cookie, or throw in strict mode */
+  const invalid = (message: string) => {
+    if (strict) throw new SyntaxError(message);
+    console.warn(message);
+    return null;
+  };
+  const invalidAttribute = (key: string, value: string) => {
+    if (strict) {
+      throw new SyntaxError(`Invalid cookie attribute: "${key}=${value}"`);
+    }
+  };
+
   const attrs = value.split(";").map((attr) => {
     const [key, ...values] = attr.trim().split("=");
     return [key!, values.join("=")] as const;
@@ -298,33 +375,35 @@ function parseSetCookie(value: string): Cookie | null {
   }
 
   const cookie: Cookie = {
-    name: attrs[0][0],
-    value: attrs[0][1],
+    name: attrs[0][0].trim(),
+    value: attrs[0][1].trim(),
   };
 
   for (const [key, value] of attrs.slice(1)) {
     switch (key.toLowerCase()) {
       case "expires": {
-        cookie.expires = new Date(value);
+        // invalid dates are ignored
+        const date = new Date(value);
+        if (Number.isNaN(date.getTime())) invalidAttribute(key, value);
+        else cookie.expires = date;
         break;
       }
       case "max-age": {
-        cookie.maxAge = Number(value);
-        if (cookie.maxAge < 0) {
-          console.warn(
-            "Max-Age must be an integer superior or equal to 0. Cookie ignored.",
-          );
-          return null;
-        }
+        // https://www.rfc-editor.org/rfc/rfc6265.html#section-5.2.2
+        // non-positive values mean the cookie is expired
+        if (/^-?\d+$/.test(value.trim())) cookie.maxAge = Number(value);
+        else invalidAttribute(key, value);
         break;
       }
       case "domain": {
         // https://www.rfc-editor.org/rfc/rfc6265.html#section-5.2.3
-        cookie.domain = value.trim().replace(/^\./, "");
+        cookie.domain = value.trim().replace(/^\./, "").toLowerCase();
         break;
       }
       case "path": {
-        cookie.path = value;
+        // https://www.rfc-editor.org/rfc/rfc6265.html#section-5.2.4
+        // the default path is used if the value does not start with "/"
+        if (value.startsWith("/")) cookie.path = value;
         break;
       }
       case "secure": {
@@ -335,8 +414,27 @@ function parseSetCookie(value: string): Cookie | null {
         cookie.httpOnly = true;
         break;
       }
+      case "partitioned": {
+        cookie.partitioned = true;
+        break;
+      }
       case "samesite": {
-        cookie.sameSite = value as NonNullable<Cookie["sameSite"]>;
+        // unknown values are ignored, or throw in strict mode
+        const sameSite = parseEnum<CookieSameSite>(
+          ["Strict", "Lax", "None"],
+          value,
+        );
+        if (sameSite) cookie.sameSite = sameSite;
+        else invalidAttribute(key, value);
+        break;
+      }
+      case "priority": {
+        const priority = parseEnum<CookiePriority>(
+          ["Low", "Medium", "High"],
+          value,
+        );
+        if (priority) cookie.priority = priority;
+        else invalidAttribute(key, value);
         break;
       }
       default: {
@@ -353,31 +451,33 @@ function parseSetCookie(value: string): Cookie | null {
     ) /** This requirement is mentioned in https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Set-Cookie but not the RFC. */ &&
     !cookie.secure
   ) {
-    console.warn(
+    return invalid(
       "Cookies with names starting with `__Secure-` must be set with the secure flag. Cookie ignored.",
     );
-    return null;
   }
   if (cookie.name.startsWith("__Host-")) {
     if (!cookie.secure) {
-      console.warn(
+      return invalid(
         "Cookies with names starting with `__Host-` must be set with the secure flag. Cookie ignored.",
       );
-      return null;
     }
     if (cookie.domain !== undefined) {
-      console.warn(
+      return invalid(
         "Cookies with names starting with `__Host-` must not have a domain specified. Cookie ignored.",
       );
-      return null;
     }
     if (cookie.path !== "/") {
-      console.warn(
+      return invalid(
         "Cookies with names starting with `__Host-` must have path be `/`. Cookie has been ignored.",
       );
-      return null;
     }
   }
+  // https://developer.mozilla.org/en-US/docs/Web/Privacy/Guides/Privacy_sandbox/Partitioned_cookies
+  if (cookie.partitioned && !cookie.secure) {
+    return invalid(
+      "Cookies with the `Partitioned` attribute must be set with the secure flag. Cookie ignored.",
+    );
+  }
   return cookie;
 }
 
@@ -403,14 +503,17 @@ function headersGetSetCookie(headers: Headers): string[] {
  * Parse set-cookies of a header
  *
  * @param headers The headers instance to get set-cookies from
+ * @param options Parse options
  * @return List of cookies
  */
-export function getSetCookies(headers: Headers): Cookie[] {
+export function getSetCookies(
+  headers: Headers,
+  options?: ParseSetCookieOptions,
+): Cookie[] {
   return (
     headersGetSetCookie(headers)
       /** Parse each `set-cookie` header separately */
-      // eslint-disable-next-line unicorn/no-array-callback-reference
-      .map(parseSetCookie)
+      .map((value) => parseSetCookie(value, options))
       /** Skip empty cookies */
       .filter(Boolean) as Cookie[]
   );
@@ -1,116 +1,477 @@
-import { Cookie, cookieToString, getSetCookies } from "./cookie";
+import { Cookie, getSetCookies } from "./cookie";
+import {
+  type CookieStore,
+  deserializeCookie,
+  isSameCookie,
+  formatNetscape,
+  MemoryCookieStore,
+  parseNetscape,
+  type SerializedCookie,
+  serializeCookie,
+} from "./cookiestore";
+import { getRegistrableDomain, isIP, isPublicSuffix } from "./publicsuffix";
 
 export const isBrowser =
   typeof globalThis !== "undefined" && globalThis.document !== undefined;
 
+/**
+ * Describes the request a cookie is received from or sent with,
+ * so that the `SameSite` attribute can be enforced.
+ */
+export interface CookieContext {
+  /**
+   * Whether the request is cross-site, e.g. a redirect hop to another site.
+   * @default {false}
+   */
+  crossSite?: boolean;
+  /**
+   * HTTP method of the request, `SameSite=Lax` cookies are only allowed for
+   * safe methods on cross-site requests.
+   * @default {"GET"}
+   */
+  method?: string;
+}
+
+/**
+ * Get the "site" of a hostname, i.e. the registrable domain.
+ *
+ * @note only the built-in subset of public suffixes is used
+ */
+function siteOf(hostname: string) {
+  return getRegistrableDomain(hostname);
+}
+
+/**
+ * Check whether a hostname domain-matches a cookie domain.
+ * @see {@link https://www.rfc-editor.org/rfc/rfc6265.html#section-5.1.3}
+ */
+function domainMatch(hostname: string, domain: string) {
+  return (
+    hostname === domain || (hostname.endsWith(`.${domain}`) && !isIP(hostname))
+  );
+}
+
+/**
+ * Check whether a request path path-matches a cookie path.
+ * @see {@link https://www.rfc-editor.org/rfc/rfc6265.html#section-5.1.4}
+ */
+function pathMatch(pathname: string, path: string) {
+  return (
+    pathname === path ||
+    (pathname.startsWith(path) &&
+      (path.endsWith("/") || pathname[path.length] === "/"))
+  );
+}
+
+/**
+ * Get the default path of a cookie, i.e. the "directory" of the request path.
+ * @see {@link https://www.rfc-editor.org/rfc/rfc6265.html#section-5.1.4}
+ */
+function defaultPath(pathname: string) {
+  if (!pathname.startsWith("/")) return "/";
+  const index = pathname.lastIndexOf("/");
+  return index === 0 ? "/" : pathname.slice(0, index);
+}
+
+/**
+ * Check whether the url is a secure context, where secure cookies can be set and sent.
+ * Localhost is trusted like browsers do.
+ */
+function isSecure(url: URL) {
+  return (
+    url.protocol === "https:" ||
+    url.protocol === "wss:" ||
+    url.hostname === "localhost" ||
+    url.hostname.endsWith(".localhost") ||
+    url.hostname === "127.0.0.1" ||
+    url.hostname === "[::1]"
+  );
+}
+
+/**
+ * Check whether two urls are same-site.
+ * @see {@link https://html.spec.whatwg.org/multipage/browsers.html#same-site}
+ */
+export function isSameSite(a: string | URL, b: string | URL) {
+  const urlA = new URL(a);
+  const urlB = new URL(b);
+  return (
+    urlA.protocol === urlB.protocol &&
+    siteOf(urlA.hostname) === siteOf(urlB.hostname)
+  );
+}
+
+/**
+ * Check if a cookie is allowed by its `SameSite` attribute in the given context.
+ * @see {@link https://datatracker.ietf.org/doc/html/draft-ietf-httpbis-rfc6265bis#section-5.6.7}
+ */
+function isSameSiteAllowed(cookie: Cookie, context: CookieContext) {
+  if (!context.crossSite) return true;
+  switch (cookie.sameSite?.toLowerCase()) {
+    case "strict": {
+      return false;
+    }
+    case "none": {
+      return true;
+    }
+    default: {
+      // cookies without SameSite attribute are treated as Lax
+      const method = (context.method || "GET").toUpperCase();
+      return method === "GET" || method === "HEAD";
+    }
+  }
+}
+
+export interface CookieJarOptions {
+  /**
+   * Where cookies are stored.
+   * @default {new MemoryCookieStore()}
+   */
+  store?: CookieStore;
+  /**
+   * Check whether a domain is a public suffix, e.g. `com` or `co.uk`,
+   * cookies can not be set for public suffixes except by the host itself.
+   * The default only knows a small built-in subset of the Public Suffix List.
+   */
+  isPublicSuffix?(domain: string): boolean;
+}
+
+/**
+ * A change of the cookies in a jar.
+ * - `added`: a new cookie is stored
+ * - `updated`: a stored cookie is replaced by one with the same name, domain and path
+ * - `expired`: a stored cookie is removed as it is expired, or set again with a past expiry
+ * - `removed`: a stored cookie is removed explicitly
+ */
+export interface CookieChangeEvent {
+  type: "added" | "updated" | "expired" | "removed";
+  cookie: Cookie;
+}
+
+export type CookieChangeListener = (event: CookieChangeEvent) => void;
+
+/**
+ * Filter of cookies to be removed, all given fields need to match.
+ */
+export type CookieFilter = Partial<Pick<Cookie, "domain" | "path" | "name">>;
+
+const isExpired = (cookie: Cookie, now = Date.now()) =>
+  cookie.expires !== undefined && Number(cookie.expires) <= now;
+
 /**
  * This class is for server-side only
  *
- * @note this is just a simple implementation, not strictly follow the rfc6265,
- * and some new features are missing, for example, Cookie.partitioned is not supported
+ * Cookies are stored and sent following RFC 6265bis, as a user agent without
+ * "non-HTTP" APIs, e.g. Cookie.partitioned is not supported.
+ *
+ * @see {@link https://datatracker.ietf.org/doc/html/draft-ietf-httpbis-rfc6265bis}
  */
 export class CookieJar {
+  readonly store: CookieStore;
+  private _isPublicSuffix: (domain: string) => boolean;
+  private _listeners = new Set<CookieChangeListener>();
+
+  constructor(options: CookieJarOptions = {}) {
+    this.store = options.store || new MemoryCookieStore();
+    this._isPublicSuffix = options.isPublicSuffix || isPublicSuffix;
+  }
+
+  private _emit(type: CookieChangeEvent["type"], cookie: Cookie) {
+    for (const listener of this._listeners) listener({ type, cookie });
+  }
+
+  private async _removeExpired() {
+    const cookies: Cookie[] = [];
+    for (const cookie of await this.store.getCookies()) {
+      if (isExpired(cookie)) {
+        await this.store.removeCookie(cookie);
+        this._emit("expired", cookie);
+      } else {
+        cookies.push(cookie);
+      }
+    }
+    return cookies;
+  }
+
+  private async _remove(predicate: (cookie: Cookie) => boolean) {
+    let removed = 0;
+    for (const cookie of await this._removeExpired()) {
+      if (!predicate(cookie)) continue;
+      await this.store.removeCookie(cookie);
+      this._emit("removed", cookie);
+      removed++;
+    }
+    return removed;
+  }
+
   /**
-   * Domain to cookie
+   * Listen to changes of the cookies in the jar.
+   *
+   * @returns A function to remove the listener
    */
-  private _store: Cookie[] = [];
-
-  private _removeExpired() {
-    this._store = this._store.filter(
-      (cookie) => !(cookie.expires && Number(cookie.expires) < Date.now()),
-    );
-    return this._store;
+  onChange(listener: CookieChangeListener) {
+    this._listeners.add(listener);
+    return () => {
+      this._listeners.delete(listener);
+    };
   }
 
-  setCookie(response: Response) {
-    const url = new URL(response.url);
-    const domain = url.hostname;
-    const cookies = getSetCookies(response.headers)
-      .map((cookie) => {
-        // save cookie with right properties
-        if (!cookie.domain) {
-          cookie.domain = domain;
-        }
-        // https://www.rfc-editor.org/rfc/rfc6265.html#section-4.1.2.4
-        // If the server omits the Path attribute, the user
-        // agent will use the "directory" of the request-uri's path component as
-        // the default value.
-        if (!cookie.path) {
-          cookie.path = url.pathname;
+  /**
+   * Store cookies from the `Set-Cookie` headers of a response.
+   * A cookie replaces the stored one with the same name, domain and path.
+   *
+   * @param response The response to read `Set-Cookie` headers from
+   * @param context The url the response is received from (defaults to `response.url`) and the same-site context
+   * @see {@link https://datatracker.ietf.org/doc/html/draft-ietf-httpbis-rfc6265bis#section-5.7}
+   */
+  async setCookie(
+    response: Response,
+    context: CookieContext & { url?: string | URL } = {},
+  ) {
+    const url = new URL(context.url || response.url);
+    const host = url.hostname;
+    const secure = isSecure(url);
+    const now = Date.now();
+    const stored = await this._removeExpired();
+
+    for (const cookie of getSetCookies(response.headers)) {
+      if (cookie.domain) {
+        if (this._isPublicSuffix(cookie.domain)) {
+          // only the host itself can set a cookie for a public suffix
+          if (cookie.domain !== host) continue;
+          delete cookie.domain;
+        } else if (!domainMatch(host, cookie.domain)) {
+          continue;
         }
-        return cookie;
-      })
-      .filter((cookie) => {
-        // remove invalid cookies
-        if (domain === "localhost") return true;
-        if (cookie.secure && url.protocol !== "https:") return false;
-        // check the domain
-        if (
-          !(
-            cookie.domain === domain ||
-            // TODO: "public suffixes" are not handled yet
-            // https://www.rfc-editor.org/rfc/rfc6265.html#section-4.1.2.3
-            cookie.domain!.endsWith(`.${domain}`)
-          )
+      }
+      cookie.hostOnly = !cookie.domain;
+      cookie.domain ||= host;
+      cookie.path ||= defaultPath(url.pathname);
+      // Max-Age takes precedence over Expires, and is relative to the time the cookie is received
+      if (cookie.maxAge !== undefined) {
+        cookie.expires = new Date(now + cookie.maxAge * 1000);
+      }
+
+      if (cookie.secure && !secure) continue;
+      if (cookie.sameSite === "None" && !cookie.secure) continue;
+      // cookies from a cross-site response must not be set unless SameSite allows
+      if (!isSameSiteAllowed(cookie, context)) continue;
+      // an insecure origin must not overwrite a secure cookie
+      if (
+        !secure &&
+        stored.some(
+          (c) =>
+            c.secure &&
+            c.name === cookie.name &&
+            (domainMatch(c.domain!, cookie.domain!) ||
+              domainMatch(cookie.domain!, c.domain!)) &&
+            pathMatch(cookie.path!, c.path || "/"),
         )
-          return false;
+      ) {
+        continue;
+      }
 
-        // remove expired
-        if (cookie.expires && Number(cookie.expires) < Date.now()) {
-          this.removeCookies(cookie);
-          return false;
-        }
-        // TODO: for response.redirected, we may need to consider cookie.SameSite for security reason
-        return true;
-      });
+      const old = stored.find((c) => isSameCookie(c, cookie));
+      cookie.creationTime = old?.creationTime ?? now;
+      if (isExpired(cookie, now)) {
+        // an expired cookie removes the stored one
+        if (!old) continue;
+        await this.store.removeCookie(old);
+        this._emit("expired", old);
+      } else {
+        await this.store.putCookie(cookie);
+        this._emit(old ? "updated" : "added", cookie);
+      }
+    }
+  }
 
-    this._store.push(...cookies);
+  /**
+   * Store a cookie in the `Set-Cookie` header form, as if it is received from the url,
+   * e.g. to seed a session in tests.
+   *
+   * @param setCookie The value of a `Set-Cookie` header
+   * @param url The url the cookie is received from
+   * @param context The same-site context
+   */
+  setCookieString(
+    setCookie: string,
+    url: string | URL,
+    context: CookieContext = {},
+  ) {
+    const response = new Response(undefined, {
+      headers: { "set-cookie": setCookie },
+    });
+    return this.setCookie(response, { ...context, url });
   }
 
-  getCookies(input: RequestInfo | URL) {
+  /**
+   * Get cookies (in `name=value` form) which should be sent with the request,
+   * cookies with longer paths are listed first.
+   *
+   * @param input The request url
+   * @param context The same-site context of the request
+   */
+  async getCookies(input: RequestInfo | URL, context: CookieContext = {}) {
+    // only `name=value` pairs are sent in the Cookie request header
+    // https://www.rfc-editor.org/rfc/rfc6265.html#section-5.4
+    return (await this.getCookieObjects(input, context)).map(
+      (cookie) => `${cookie.name}=${cookie.value}`,
+    );
+  }
+
+  /**
+   * Get cookies which should be sent with the request,
+   * cookies with longer paths are listed first.
+   *
+   * @param input The request url
+   * @param context The same-site context of the request
+   * @see {@link https://datatracker.ietf.org/doc/html/draft-ietf-httpbis-rfc6265bis#section-5.8.3}
+   */
+  async getCookieObjects(
+    input: RequestInfo | URL,
+    context: CookieContext = {},
+  ): Promise<Cookie[]> {
     const url = input instanceof Request ? new URL(input.url) : new URL(input);
-    const domain = url.hostname;
-
-    const cookies = this._removeExpired().filter((cookie) => {
-      return (
-        (cookie.domain === domain || domain.endsWith(`.${cookie.domain}`)) &&
-        (cookie.path?.endsWith("/")
-          ? url.pathname.startsWith(cookie.path)
-          : url.pathname === cookie.path ||
-            url.pathname.startsWith(`${cookie.path}/`))
+    const host = url.hostname;
+    const secure = isSecure(url);
+
+    return (await this._removeExpired())
+      .filter(
+        (cookie) =>
+          (cookie.hostOnly
+            ? host === cookie.domain
+            : domainMatch(host, cookie.domain!)) &&
+          pathMatch(url.pathname, cookie.path || "/") &&
+          (!cookie.secure || secure) &&
+          isSameSiteAllowed(cookie, context),
+      )
+      .sort(
+        (a, b) =>
+          (b.path || "/").length - (a.path || "/").length ||
+          (a.creationTime ?? 0) - (b.creationTime ?? 0),
       );
-      // TODO: "public suffixes" are not handled yet
-      // https://www.rfc-editor.org/rfc/rfc6265.html#section-4.1.2.3
-    });
+  }
 
-    return cookies.map((cookie) => cookieToString(cookie));
-  }
-
-  removeCookies(cookie: Partial<Pick<Cookie, "domain" | "path" | "name">>) {
-    this._store = this._store.filter((c) => {
-      // remove all
-      if (!cookie.domain) return false;
-      // remove by domain and name
-      if (!cookie.path)
-        return !(c.domain === cookie.domain && c.name === cookie.name);
-      // remove by domain path and name
-      return !(
-        c.domain === cookie.domain &&
-        c.name === cookie.name &&
-        (cookie.path.endsWith("/")
-          ? c.path?.startsWith(cookie.path)
-          : c.path === cookie.path || c.path?.startsWith(`${cookie.path}/`))
+  /**
+   * List the stored cookies of a domain and its subdomains, or all cookies.
+   *
+   * @param domain The domain, e.g. `example.net` lists cookies of `www.example.net` too
+   */
+  async listCookies(domain?: string): Promise<Cookie[]> {
+    const cookies = await this._removeExpired();
+    if (domain === undefined) return cookies;
+    const name = domain.toLowerCase().replace(/^\./, "");
+    return cookies.filter((cookie) => domainMatch(cookie.domain!, name));
+  }
+
+  /**
+   * Remove cookies matching the filter, where `path` also matches the paths below it.
+   * Use `removeAllCookies` to remove all cookies.
+   *
+   * @throws {TypeError} If the filter is empty
+   * @returns The number of removed cookies
+   */
+  async removeCookies(filter: CookieFilter) {
+    const { domain, path, name } = filter;
+    if (domain === undefined && path === undefined && name === undefined) {
+      throw new TypeError(
+        "The filter of removeCookies() is empty, use removeAllCookies() to remove all cookies",
       );
-    });
+    }
+    return this._remove(
+      (c) =>
+        (domain === undefined || c.domain === domain) &&
+        (name === undefined || c.name === name) &&
+        (path === undefined || pathMatch(c.path || "/", path)),
+    );
   }
 
-  toJSON() {
-    return this._removeExpired();
+  /**
+   * Remove cookies for which the predicate returns `true`.
+   *
+   * @returns The number of removed cookies
+   */
+  deleteCookies(predicate: (cookie: Cookie) => boolean) {
+    return this._remove(predicate);
+  }
+
+  /**
+   * Remove session cookies, i.e. cookies without an expiry,
+   * like a browser does when it is closed.
+   *
+   * @returns The number of removed cookies
+   */
+  clearSessionCookies() {
+    return this._remove((cookie) => cookie.expires === undefined);
+  }
+
+  /**
+   * Remove all cookies.
+   *
+   * @returns The number of removed cookies
+   */
+  removeAllCookies() {
+    return this._remove(() => true);
+  }
+
+  /**
+   * Get the unexpired cookies, which can be converted to JSON and back by `fromCookies`.
+   */
+  async serialize(): Promise<SerializedCookie[]> {
+    return (await this._removeExpired()).map((cookie) =>
+      serializeCookie(cookie),
+    );
   }
 
-  static fromCookies(cookies: Cookie[]) {
-    const jar = new this();
-    jar._store = cookies;
-    return jar;
+  /**
+   * Get the unexpired cookies for `JSON.stringify`, like `serialize`.
+   * Only synchronous stores can be read here, use `await jar.serialize()` for async ones.
+   *
+   * @throws {TypeError} If the store is asynchronous
+   */
+  toJSON(): SerializedCookie[] {
+    const cookies = this.store.getCookies();
+    if (!Array.isArray(cookies)) {
+      Promise.resolve(cookies).catch(() => {});
+      throw new TypeError(
+        "The cookie store is asynchronous, use `await jar.serialize()` instead",
+      );
+    }
+    const now = Date.now();
+    return cookies
+      .filter((cookie) => !isExpired(cookie, now))
+      .map((cookie) => serializeCookie(cookie));
+  }
+
+  /**
+   * Get the unexpired cookies in the Netscape `cookies.txt` format.
+   */
+  async exportNetscape() {
+    return formatNetscape(await this._removeExpired());
+  }
+
+  /**
+   * Store cookies in the Netscape `cookies.txt` format, e.g. from curl or wget.
+   */
+  async importNetscape(text: string) {
+    const stored = await this._removeExpired();
+    for (const cookie of parseNetscape(text)) {
+      if (isExpired(cookie)) continue;
+      const old = stored.find((c) => isSameCookie(c, cookie));
+      await this.store.putCookie(cookie);
+      this._emit(old ? "updated" : "added", cookie);
+    }
+  }
+
+  /**
+   * Create a jar with an in-memory store of the cookies,
+   * which may be serialized or parsed from JSON.
+   */
+  static fromCookies(cookies: Array<Cookie | SerializedCookie>) {
+    return new this({
+      store: new MemoryCookieStore(
+        cookies.map((cookie) => deserializeCookie(cookie)),
+      ),
+    });
   }
 }
@@ -0,0 +1,210 @@
+import type { Cookie } from "./cookie";
+import type { Awaitable } from "./types";
+
+/**
+ * A cookie is identified by its name, domain and path,
+ * a new cookie replaces the stored one with the same identity.
+ */
+export type CookieIdentity = Pick<Cookie, "name" | "domain" | "path">;
+
+/**
+ * Storage of the cookies of a `CookieJar`, which may be asynchronous.
+ * Stores only persist cookies, expiry and matching are done by the jar.
+ */
+export interface CookieStore {
+  getCookies(): Awaitable<Cookie[]>;
+  /**
+   * Insert the cookie, or replace the one with the same identity.
+   */
+  putCookie(cookie: Cookie): Awaitable<void>;
+  removeCookie(cookie: CookieIdentity): Awaitable<void>;
+  removeAllCookies(): Awaitable<void>;
+}
+
+export const isSameCookie = (a: CookieIdentity, b: CookieIdentity) =>
+  a.name === b.name && a.domain === b.domain && a.path === b.path;
+
+/**
+ * A cookie which can be converted to JSON and back without losing information,
+ * `expires` is in UTC milliseconds.
+ */
+export type SerializedCookie = Omit<Cookie, "expires"> & { expires?: number };
+
+export function serializeCookie(cookie: Cookie): SerializedCookie {
+  const { expires, ...rest } = cookie;
+  return expires === undefined ? rest : { ...rest, expires: Number(expires) };
+}
+
+/**
+ * Restore a serialized cookie, `expires` may also be a date string,
+ * which is what a `Date` becomes after `JSON.stringify`.
+ */
+export function deserializeCookie(
+  cookie: Omit<Cookie, "expires"> & { expires?: Date | number | string },
+): Cookie {
+  const { expires, ...rest } = cookie;
+  return expires === undefined ? rest : { ...rest, expires: new Date(expires) };
+}
+
+/**
+ * A store which keeps cookies in memory.
+ */
+export class MemoryCookieStore implements CookieStore {
+  protected _cookies: Cookie[];
+
+  constructor(cookies: Cookie[] = []) {
+    this._cookies = [...cookies];
+  }
+
+  getCookies() {
+    return [...this._cookies];
+  }
+
+  putCookie(cookie: Cookie) {
+    this.removeCookie(cookie);
+    this._cookies.push(cookie);
+  }
+
+  removeCookie(cookie: CookieIdentity) {
+    this._cookies = this._cookies.filter((c) => !isSameCookie(c, cookie));
+  }
+
+  removeAllCookies() {
+    this._cookies = [];
+  }
+}
+
+/**
+ * A store which keeps cookies in a JSON file, for Node.js compatible runtimes.
+ * The file is read on first use, and written atomically after every change,
+ * by writing a temporary file and renaming it.
+ */
+export class FileCookieStore implements CookieStore {
+  readonly path: string;
+
+  private _memory?: Promise<MemoryCookieStore>;
+  private _writing: Promise<void> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async getCookies() {
+    return (await this._load()).getCookies();
+  }
+
+  async putCookie(cookie: Cookie) {
+    (await this._load()).putCookie(cookie);
+    await this._save();
+  }
+
+  async removeCookie(cookie: CookieIdentity) {
+    (await this._load()).removeCookie(cookie);
+    await this._save();
+  }
+
+  async removeAllCookies() {
+    (await this._load()).removeAllCookies();
+    await this._save();
+  }
+
+  private _load() {
+    this._memory ||= (async () => {
+      const { readFile } = await import("node:fs/promises");
+      let text: string;
+      try {
+        text = await readFile(this.path, "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return new MemoryCookieStore();
+        }
+        throw error;
+      }
+      const cookies = (JSON.parse(text) as SerializedCookie[]).map((cookie) =>
+        deserializeCookie(cookie),
+      );
+      return new MemoryCookieStore(cookies);
+    })();
+    return this._memory;
+  }
+
+  private _save() {
+    // writes are serialized, so that the last one wins
+    const write = this._writing.then(async () => {
+      const { rename, writeFile } = await import("node:fs/promises");
+      const cookies = (await this._load()).getCookies();
+      const temp = `${this.path}.${process.pid}.${Date.now()}.tmp`;
+      await writeFile(
+        temp,
+        JSON.stringify(cookies.map((cookie) => serializeCookie(cookie))),
+      );
+      await rename(temp, this.path);
+    });
+    this._writing = write.catch(() => {});
+    return write;
+  }
+}
+
+/**
+ * Format cookies in the Netscape `cookies.txt` format, which is used by curl and wget.
+ * Session cookies have an expiry of `0`.
+ *
+ * @see {@link https://curl.se/docs/http-cookies.html}
+ */
+export function formatNetscape(cookies: Cookie[]): string {
+  const lines = ["# Netscape HTTP Cookie File", ""];
+  for (const cookie of cookies) {
+    const domain = (cookie.domain || "").replace(/^\./, "");
+    const expires = cookie.expires
+      ? Math.floor(Number(cookie.expires) / 1000)
+      : 0;
+    lines.push(
+      [
+        // domain cookies are sent to subdomains, with a leading dot
+        `${cookie.httpOnly ? "#HttpOnly_" : ""}${cookie.hostOnly ? "" : "."}${domain}`,
+        cookie.hostOnly ? "FALSE" : "TRUE",
+        cookie.path || "/",
+        cookie.secure ? "TRUE" : "FALSE",
+        expires,
+        cookie.name,
+        cookie.value,
+      ].join("\t"),
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Parse cookies in the Netscape `cookies.txt` format, invalid lines are ignored.
+ *
+ * @see {@link https://curl.se/docs/http-cookies.html}
+ */
+export function parseNetscape(text: string): Cookie[] {
+  const cookies: Cookie[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    let line = rawLine;
+    let httpOnly = false;
+    if (line.startsWith("#HttpOnly_")) {
+      httpOnly = true;
+      line = line.slice("#HttpOnly_".length);
+    } else if (line.startsWith("#") || !line.trim()) {
+      continue;
+    }
+    const fields = line.split("\t");
+    if (fields.length < 7) continue;
+    const [domain, subdomains, path, secure, expires, name, ...value] = fields;
+    const cookie: Cookie = {
+      name: name!,
+      value: value.join("\t"),
+      domain: domain!.replace(/^\./, ""),
+      path: path!,
+    };
+    if (subdomains!.toUpperCase() !== "TRUE") cookie.hostOnly = true;
+    if (secure!.toUpperCase() === "TRUE") cookie.secure = true;
+    if (httpOnly) cookie.httpOnly = true;
+    const seconds = Number(expires);
+    if (seconds > 0) cookie.expires = new Date(seconds * 1000);
+    cookies.push(cookie);
+  }
+  return cookies;
+}
@@ -1,5 +1,56 @@
+import { type AuthOptions, Authenticator } from "./auth";
+import { readBytes } from "./body";
+import { CircuitBreaker, type CircuitBreakerOptions } from "./breaker";
+import { type CacheOptions, HttpCache } from "./cache";
 import { CookieJar } from "./cookiejar";
-import { retry as withRetry, type RetryOptions } from "./retry";
+import { Deduper } from "./dedupe";
+import isNetworkError, {
+  BodyReplayError,
+  CircuitOpenError,
+  HttpError,
+  SchemaValidationError,
+  TimeoutError,
+} from "./error";
+import {
+  type ConcurrencyOptions,
+  Limiter,
+  type QueueStats,
+  type RateLimitOptions,
+} from "./limiter";
+import { mergeHeaders, mergeOptions, mergeRetry } from "./merge";
+import {
+  compose,
+  type Hooks,
+  hooksToMiddleware,
+  type KnifetchContext,
+  type Middleware,
+  type Plugin,
+  pluginToMiddleware,
+} from "./middleware";
+import { toNDJSONStream } from "./ndjson";
+import { paginate, type PaginateInit, type PaginateOptions } from "./paginate";
+import { followRedirects } from "./redirect";
+import {
+  readJSONText,
+  type ResponsePromise,
+  type ResponseShortcut,
+  toResponsePromise,
+} from "./response";
+import { type StandardSchemaV1, validate } from "./schema";
+import { anySignal } from "./signal";
+import {
+  type ServerSentEvent,
+  type SSEInit,
+  type SSEOptions,
+  streamEvents,
+} from "./sse";
+import {
+  getBodySize,
+  type ProgressCallback,
+  trackRequest,
+  trackResponse,
+} from "./progress";
+import { RetryError, retry as withRetry, type RetryOptions } from "./retry";
 import type { Awaitable, Nullable } from "./types";
 
 export type Fetch = typeof fetch;
@@ -9,6 +60,94 @@ export type Fetch = typeof fetch;
  */
 type TString = string | number;
 
+/**
+ * Whether to throw `HttpError` for non-ok responses.
+ * A function can be provided to decide whether a status code should throw,
+ * for example `(status) => status >= 400 && status !== 404`.
+ */
+export type ThrowHttpErrors = boolean | ((status: number) => boolean);
+
+/**
+ * Status codes of responses to retry by default
+ */
+const RETRY_STATUS_CODES = [408, 425, 429, 500, 502, 503, 504];
+
+/**
+ * Idempotent methods, which are safe to retry
+ * @see {@link https://www.rfc-editor.org/rfc/rfc9110.html#section-9.2.2}
+ */
+const RETRY_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE", "TRACE"];
+
+/**
+ * Get the time (in ms) to wait before the next request, from the
+ * `Retry-After` or `RateLimit-Reset` header of a response.
+ *
+ * @see {@link https://www.rfc-editor.org/rfc/rfc9110.html#section-10.2.3}
+ * @see {@link https://datatracker.ietf.org/doc/draft-ietf-httpapi-ratelimit-headers/}
+ */
+function getRetryAfter(headers: Headers): number | undefined {
+  const retryAfter = headers.get("retry-after")?.trim();
+  if (retryAfter) {
+    // delay-seconds
+    if (/^\d+$/.test(retryAfter)) return Number(retryAfter) * 1000;
+    // HTTP-date
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+  const reset = headers.get("ratelimit-reset")?.trim();
+  if (reset && /^\d+$/.test(reset)) return Number(reset) * 1000;
+}
+
+/**
+ * Retry policy for failed requests.
+ */
+export interface KRetryOptions extends Pick<
+  RetryOptions<unknown>,
+  "delay" | "maxTries" | "timeout" | "maxElapsedTime"
+> {
+  /**
+   * Status codes of responses to retry.
+   * When retries are exhausted, the last response is returned.
+   * @default {[408, 425, 429, 500, 502, 503, 504]}
+   */
+  statusCodes?: number[];
+
+  /**
+   * Methods of requests to retry, idempotent methods by default.
+   * @default {["GET", "HEAD", "OPTIONS", "PUT", "DELETE", "TRACE"]}
+   */
+  methods?: string[];
+
+  /**
+   * Max time (in ms) to wait for the `Retry-After` or `RateLimit-Reset` header of a response,
+   * if the server asks to wait longer, the response is not retried.
+   * @default {60_000}
+   */
+  maxRetryAfter?: number;
+
+  /**
+   * Max size (in bytes) of a streamed request body to be buffered,
+   * the stream is buffered so that it can be sent again by each attempt,
+   * if the request may be retried. Other bodies are sent again as they are.
+   * A `BodyReplayError` is thrown before sending if the stream is larger.
+   * @default {10_485_760}
+   */
+  maxBodySize?: number;
+
+  /**
+   * Decide whether a failed attempt should be retried,
+   * an attempt is failed if its response has one of `statusCodes`, or an error is thrown.
+   * This overrides the default policy, which retries network errors and timeouts
+   * for `methods` only, and errors thrown by interceptors are never retried.
+   */
+  shouldRetry?(context: {
+    request: Request;
+    response?: Response;
+    error?: unknown;
+    attempt: number;
+  }): Awaitable<boolean>;
+}
+
 /**
  * Extended RequestInit interface with additional request configuration options.
  */
@@ -40,19 +179,69 @@ export interface KRequestInit extends RequestInit {
    */
   form?: URLSearchParams | Record<string, Nullable<TString>>;
 
+  /**
+   * Values for a streamed NDJSON request body, one JSON value per line,
+   * which are pulled as the body is sent.
+   * Sets Content-Type to 'application/x-ndjson'.
+   * Needs streamed request bodies (`duplex: "half"`) to be supported by the runtime.
+   */
+  ndjson?: AsyncIterable<unknown> | Iterable<unknown>;
+
   /**
    * Retry configuration for failed requests.
    */
-  retry?:
-    | boolean
-    | number
-    | Pick<RetryOptions<unknown>, "delay" | "maxTries" | "timeout">;
+  retry?: boolean | number | KRetryOptions;
+
+  /**
+   * Standard Schema (zod, valibot, arktype, etc.) to validate the parsed body,
+   * the body is parsed by `transformResponse`, or as JSON if it is not given.
+   * A `SchemaValidationError` is thrown if the body is not valid JSON or the validation failed.
+   * Body shortcuts of the returned promise are not validated.
+   */
+  schema?: StandardSchemaV1;
+
+  /**
+   * Timeout in ms for the entire request, including all retry attempts,
+   * a `TimeoutError` is thrown when it is reached.
+   * The timeout per attempt is configured by `retry.timeout`,
+   * the `scope` of the error tells which timeout is reached.
+   * `false` disables the timeout of the instance.
+   */
+  timeout?: number | false;
+
+  /**
+   * Share one fetch among concurrent GET and HEAD requests with the same url and headers,
+   * each caller gets its own clone of the response.
+   * The shared fetch is only aborted once every caller has aborted.
+   */
+  dedupe?: boolean;
+
+  /**
+   * Called as the response body is read, with the total from `Content-Length`.
+   * The body of the returned response reports the progress.
+   */
+  onDownloadProgress?: ProgressCallback;
+
+  /**
+   * Called as the request body is sent by each attempt, the body is sent as a stream,
+   * so it is not reported if streamed request bodies (`duplex: "half"`) are not supported.
+   */
+  onUploadProgress?: ProgressCallback;
+
+  /**
+   * Throw `HttpError` for non-ok responses, overrides the instance option.
+   * The error is thrown after onResponse and before transformResponse.
+   */
+  throwHttpErrors?: ThrowHttpErrors;
 }
 
 /**
  * Configuration options for creating a Knifetch instance.
  */
-export interface KnifetchOptions<T> {
+export interface KnifetchOptions<T>
+  extends
+    Hooks,
+    Pick<KRequestInit, "headers" | "query" | "retry" | "timeout" | "dedupe"> {
   /**
    * Custom fetch implementation. Defaults to globalThis.fetch.
    */
@@ -66,36 +255,57 @@ export interface KnifetchOptions<T> {
 
   /**
    * Cookie jar instance or boolean to enable cookie management.
+   * When enabled, redirects are followed by knifetch itself,
+   * so that cookies are captured from every hop of the redirect chain.
    */
   cookieJar?: boolean | CookieJar;
 
   /**
-   * Pre-request interceptor function.
+   * Credentials of Basic, Bearer or Digest auth, or an authenticator to share.
+   * When enabled, redirects are followed by knifetch itself,
+   * so that credentials are not sent to another origin.
    */
-  onRequest?({ request }: { request: Request }): Awaitable<Request | void>;
+  auth?: AuthOptions | Authenticator;
 
   /**
-   * Post-response interceptor function.
+   * Cache GET responses following RFC 9111, `true` to cache in memory.
+   * The cache sits where the request is sent to the network,
+   * so that middlewares and hooks see the cached responses too.
+   * Extended instances only share the cache if the `store` is given.
    */
-  onResponse?({
-    request,
-    response,
-  }: {
-    request: Request;
-    response: Response;
-  }): Awaitable<Response | void>;
+  cache?: boolean | CacheOptions;
 
   /**
-   * Error handler for failed fetch requests.
-   * Returning a Response will trigger onResponse interceptor.
+   * Maximum number of requests sent at the same time, a number for the global limit.
+   * Requests over the limit wait in a queue ordered by their `priority`,
+   * and a request holds its slot until its response (not the body) is received.
    */
-  onFetchError?({
-    request,
-    error,
-  }: {
-    request: Request;
-    error: unknown;
-  }): Awaitable<Response | void>;
+  concurrency?: number | ConcurrencyOptions;
+
+  /**
+   * Maximum number of requests sent per interval, as a token bucket.
+   * Requests over the limit wait in the same queue as `concurrency`.
+   */
+  rateLimit?: RateLimitOptions;
+
+  /**
+   * Circuit breaker instance or options, which is keyed by origin by default.
+   * While a circuit is open, requests fail fast with `CircuitOpenError`, and are not retried.
+   */
+  circuitBreaker?: boolean | CircuitBreakerOptions | CircuitBreaker;
+
+  /**
+   * Throw `HttpError` for non-ok responses.
+   * The error is thrown after onResponse and before transformResponse.
+   * @default {false}
+   */
+  throwHttpErrors?: ThrowHttpErrors;
+
+  /**
+   * Middlewares and plugins, the first one is the outermost.
+   * The interceptor hooks of the options are adapted as the innermost layer.
+   */
+  plugins?: Array<Middleware | Plugin>;
 
   /**
    * Response transformation function.
@@ -103,31 +313,148 @@ export interface KnifetchOptions<T> {
   transformResponse?(response: Response): Awaitable<T>;
 }
 
+/**
+ * The enhanced fetch function created by `createKnifetch`.
+ */
+export interface Knifetch<T> {
+  <S extends StandardSchemaV1>(
+    input: RequestInfo | URL,
+    init: KRequestInit & { schema: S },
+  ): ResponsePromise<StandardSchemaV1.InferOutput<S>>;
+  (input: RequestInfo | URL, init?: KRequestInit): ResponsePromise<T>;
+  /**
+   * Append middlewares or plugins, which are inside the existing ones
+   * but outside the interceptor hooks of the options.
+   * @returns The same instance
+   */
+  use(...plugins: Array<Middleware | Plugin>): Knifetch<T>;
+  /**
+   * Create a child instance with the options merged into the ones of this instance.
+   * Headers are merged case-insensitively, query objects are combined,
+   * `baseURL` is resolved relative to this instance, and hooks are appended.
+   * The queue of `concurrency` and `rateLimit` is shared, unless the child sets its own limits.
+   */
+  extend<U = T>(options?: KnifetchOptions<U>): Knifetch<U>;
+  /**
+   * Create a new instance, which inherits nothing from this instance.
+   */
+  create<U = Response>(options?: KnifetchOptions<U>): Knifetch<U>;
+  /**
+   * Get the state of the queue of `concurrency` and `rateLimit`.
+   */
+  queueStats(): QueueStats;
+  /**
+   * Request pages one by one with this instance, and iterate the items of every page.
+   * The `rel="next"` link of the `Link` header is followed by default.
+   * The raw response of every page is used, `transformResponse` is skipped.
+   */
+  paginate<I = unknown>(
+    input: RequestInfo | URL,
+    init?: PaginateInit,
+    options?: PaginateOptions<I>,
+  ): AsyncGenerator<I, void, undefined>;
+  /**
+   * Consume a `text/event-stream` response with this instance, and iterate its events.
+   * When the connection is closed or lost, it is reconnected with the `Last-Event-ID` header,
+   * after the reconnection time set by the server with a `retry` field.
+   */
+  sse<D = string>(
+    input: RequestInfo | URL,
+    init?: SSEInit,
+    options?: SSEOptions<D>,
+  ): AsyncGenerator<ServerSentEvent<D>, void, undefined>;
+}
+
 /**
  * Creates a customized fetch function with enhanced features and middleware support.
  * @param options - Configuration options for the fetch instance
  * @returns Enhanced fetch function
  */
-export function createKnifetch<T = Response>(options?: KnifetchOptions<T>) {
+export function createKnifetch<T = Response>(
+  options?: KnifetchOptions<T>,
+): Knifetch<T> {
+  return createInstance(options, {});
+}
+
+/**
+ * The state which an instance shares with its extended instances,
+ * so that the limits of the queue and deduplication apply to all of them.
+ */
+interface SharedState {
+  limiter?: Limiter;
+  deduper?: Deduper;
+}
+
+function createInstance<T>(
+  options: KnifetchOptions<T> | undefined,
+  shared: SharedState,
+): Knifetch<T> {
   const fetch = options?.fetch || globalThis.fetch;
   const cookieJar =
     options?.cookieJar &&
     (options.cookieJar === true ? new CookieJar() : options.cookieJar);
+  const authenticator =
+    options?.auth &&
+    (options.auth instanceof Authenticator
+      ? options.auth
+      : new Authenticator(options.auth));
+  const cache =
+    options?.cache &&
+    new HttpCache(options.cache === true ? {} : options.cache);
+  const breaker =
+    options?.circuitBreaker &&
+    (options.circuitBreaker instanceof CircuitBreaker
+      ? options.circuitBreaker
+      : new CircuitBreaker(
+          options.circuitBreaker === true ? {} : options.circuitBreaker,
+        ));
+  const deduper = shared.deduper || new Deduper();
+  const limiter =
+    shared.limiter || new Limiter(options?.concurrency, options?.rateLimit);
+  const middlewares = (options?.plugins || []).map((plugin) =>
+    pluginToMiddleware(plugin),
+  );
+  // the interceptor hooks of the options are the innermost layer
+  const hooks = hooksToMiddleware(options || {});
 
-  return async (
+  const send = async (
     rInput: RequestInfo | URL,
-    rInit: KRequestInit = {},
-  ): Promise<T> => {
+    rInit: KRequestInit,
+    shortcut: ResponseShortcut,
+    // the query of the instance is already in the url, e.g. the link of the next page
+    instanceQuery = true,
+  ): Promise<{ response: Response; request: Request }> => {
     let input: RequestInfo | URL = rInput;
     if (options?.baseURL && typeof rInput === "string") {
       input = `${options.baseURL}${rInput}`;
     }
 
-    const { query, json, formData, form, retry, ...init } = rInit || {};
-    const headers = new Headers(init.headers);
+    const {
+      query: rQuery,
+      json,
+      formData,
+      form,
+      ndjson,
+      retry: rRetry,
+      schema,
+      timeout = options?.timeout,
+      dedupe = options?.dedupe,
+      onDownloadProgress,
+      onUploadProgress,
+      throwHttpErrors = options?.throwHttpErrors,
+      ...init
+    } = rInit || {};
+    // request options override the defaults of the instance
+    const headers = mergeHeaders(
+      options?.headers,
+      rInput instanceof Request ? rInput.headers : undefined,
+      init.headers,
+    );
+    const query = { ...(instanceQuery && options?.query), ...rQuery };
+    const retry = mergeRetry(options?.retry, rRetry);
 
     // set default method to POST if a body is provided
-    if (!init.method && (json || form || formData)) {
+    if (!init.method && (json || form || formData || ndjson)) {
       // note that we do not handle this for init.body
       init.method = "POST";
     }
@@ -171,7 +498,12 @@ export function createKnifetch<T = Response>(options?: KnifetchOptions<T>) {
               value as string | Blob,
             );
           }
+          init.body = fd;
         }
+      } else if (ndjson) {
+        contentType = "application/x-ndjson";
+        init.body = toNDJSONStream(ndjson);
+        (init as RequestInit & { duplex?: "half" }).duplex = "half";
       }
       if (contentType && !headers.has("content-type")) {
         headers.set("content-type", contentType);
@@ -179,19 +511,38 @@ export function createKnifetch<T = Response>(options?: KnifetchOptions<T>) {
     }
 
     // handle cookies
-    if (cookieJar && !headers.has("cookie")) {
-      for (const cookie of cookieJar.getCookies(input)) {
-        headers.append("cookie", cookie);
-      }
+    const attachCookies = !!cookieJar && !headers.has("cookie");
+    if (cookieJar && attachCookies) {
+      const cookies = await cookieJar.getCookies(input);
+      if (cookies.length > 0) headers.set("cookie", cookies.join("; "));
+    }
+
+    // set the Accept header for the body shortcut
+    if (shortcut.accept && !headers.has("accept")) {
+      headers.set("accept", shortcut.accept);
+    }
+    // the body is parsed as JSON for the schema
+    if (schema && !options?.transformResponse && !headers.has("accept")) {
+      headers.set("accept", "application/json");
     }
 
     init.headers = headers;
+    // the size of the body for upload progress, before it is consumed
+    const bodySize =
+      getBodySize(init.body) || Number(headers.get("content-length")) || 0;
+
+    // the signal of the request is also aborted by the timeout
+    const timeoutController = new AbortController();
+    const combined = anySignal([init.signal, timeoutController.signal]);
+    init.signal = combined.signal;
 
     // create Request object
     let request$: Request;
-    if (query) {
+    if (Object.keys(query).length > 0) {
       const url = new URL(input instanceof Request ? input.url : input);
       for (const [k, v] of Object.entries(query)) {
+        // ignore `undefined` and `null`
+        if (v == undefined) continue;
         url.searchParams.append(k, String(v));
       }
       request$ = new Request(url, init);
@@ -199,58 +550,322 @@ export function createKnifetch<T = Response>(options?: KnifetchOptions<T>) {
       request$ = new Request(input, init);
     }
 
-    const action = async (): Promise<T> => {
-      // call onRequest interceptor
-      const onRequestResult: Nullable<Request> = await options?.onRequest?.({
-        request: request$,
-      });
-      const request =
-        onRequestResult instanceof Request ? onRequestResult : request$;
+    // the request of the latest attempt
+    let request = request$;
+    // the body to be sent again by each attempt,
+    // a stream is buffered, and other bodies can be sent as they are
+    let replayBody: BodyInit | undefined;
 
-      let response: Response | void;
-      try {
-        // make the actual fetch request
-        response = await fetch(request);
-      } catch (error) {
-        // handle fetch errors with onFetchError interceptor
-        const onFetchErrorResult: Nullable<Response> =
-          await options?.onFetchError?.({ request, error });
-        if (onFetchErrorResult instanceof Response) {
-          // if onFetchError returns a Response, use it as the final response
-          response = onFetchErrorResult;
-        } else {
-          // otherwise, error is considered not handled, rethrow the error
-          throw error;
-        }
+    // a single attempt of the request, which may be retried
+    // when retrying, each attempt has its own signal to cancel the fetch
+    const attempt = async (signal?: AbortSignal): Promise<Response> => {
+      const attemptInit: RequestInit = { signal, body: replayBody };
+      if (replayBody instanceof FormData) {
+        // the form data is serialized with a new multipart boundary
+        const headers = new Headers(request$.headers);
+        headers.delete("content-type");
+        attemptInit.headers = headers;
       }
+      const attemptRequest = signal
+        ? new Request(request$, attemptInit)
+        : request$;
 
-      // call onResponse interceptor
-      const onResponseResult: Nullable<Response> = await options?.onResponse?.({
-        request,
-        response,
+      const ctx: KnifetchContext = { request: attemptRequest, init: rInit };
+      await compose([...middlewares, hooks])(ctx, async () => {
+        request = ctx.request;
+        const sent = onUploadProgress
+          ? trackRequest(
+              request,
+              replayBody instanceof Uint8Array
+                ? replayBody.byteLength
+                : bodySize,
+              onUploadProgress,
+            )
+          : request;
+        // make the actual fetch request
+        const transport = async (request: Request) => {
+          // wait in the queue for the limits
+          const release = await limiter.acquire(
+            new URL(request.url).origin,
+            rInit.priority,
+            request.signal,
+          );
+          try {
+            return cookieJar || authenticator
+              ? await followRedirects(fetch, request, {
+                  cookieJar: cookieJar || undefined,
+                  attachCookies,
+                })
+              : await fetch(request);
+          } finally {
+            release();
+          }
+        };
+        // fail fast while the circuit is open
+        const network = (request: Request) =>
+          breaker ? breaker.fetch(request, transport) : transport(request);
+        // identical requests in flight share the network request
+        const shared = dedupe
+          ? (request: Request) => deduper.fetch(request, network)
+          : network;
+        const cached = (request: Request) =>
+          cache ? cache.fetch(request, shared) : shared(request);
+        // a 401 response may be answered by replaying the request with credentials
+        ctx.response = authenticator
+          ? await authenticator.fetch(sent, cached)
+          : await cached(sent);
       });
-      response =
-        onResponseResult instanceof Response ? onResponseResult : response;
+      request = ctx.request;
 
-      // transform the response if needed
-      return options?.transformResponse
-        ? options.transformResponse(response)
-        : (response as T); // if options.transformResponse is not given, T will be Response
+      if (!ctx.response) {
+        throw new TypeError("No response is set by middlewares");
+      }
+      return ctx.response;
     };
 
-    // handle retry logic
-    if (retry) {
-      let retryOptions: RetryOptions<T> = {};
-      if (retry !== true) {
-        if (typeof retry === "number") retryOptions.maxTries = retry;
-        else retryOptions = retry;
+    // abort the request if it takes too long
+    const startTime = Date.now();
+    const timeoutID =
+      timeout === false || timeout === undefined
+        ? undefined
+        : setTimeout(
+            () =>
+              timeoutController.abort(
+                new TimeoutError(request, Date.now() - startTime),
+              ),
+            timeout,
+          );
+
+    try {
+      let response: Response;
+      // handle retry logic
+      if (retry) {
+        let retryOptions: KRetryOptions = {};
+        if (retry !== true) {
+          if (typeof retry === "number") retryOptions.maxTries = retry;
+          else retryOptions = retry;
+        }
+        const {
+          statusCodes = RETRY_STATUS_CODES,
+          methods = RETRY_METHODS,
+          maxRetryAfter = 60_000,
+          maxBodySize = 10 * 1024 * 1024,
+          shouldRetry,
+          ...rest
+        } = retryOptions;
+        // only the body of a request which may be retried is kept
+        if (shouldRetry || methods.includes(request$.method.toUpperCase())) {
+          if (init.body && !(init.body instanceof ReadableStream)) {
+            replayBody = init.body;
+          } else if (request$.body) {
+            const { bytes, truncated } = await readBytes(
+              request$.body,
+              maxBodySize,
+            );
+            if (truncated) throw new BodyReplayError(request$, maxBodySize);
+            replayBody = bytes;
+          }
+        }
+        const maxTries = rest.maxTries || 5;
+        const maxElapsedTime = rest.maxElapsedTime ?? Infinity;
+        // the delay before the next attempt, decided when an attempt failed
+        let nextDelay = 0;
+
+        response = await withRetry(attempt, {
+          ...rest,
+          maxTries,
+          signal: init.signal || undefined,
+          delay: () => nextDelay,
+          // responses with retryable status codes are failed attempts
+          predicate: (response) => !statusCodes.includes(response.status),
+          shouldRetry: async ({ value, error, attemptedTimes }) => {
+            // the last response or error is returned as is
+            if (attemptedTimes >= maxTries) return false;
+            // an open circuit stops retrying
+            if (
+              error instanceof CircuitOpenError ||
+              (breaker && breaker.state(request) === "open")
+            ) {
+              return false;
+            }
+            let retryable: boolean;
+            if (shouldRetry) {
+              retryable = await shouldRetry({
+                request,
+                response: value,
+                error: value ? undefined : error,
+                attempt: attemptedTimes,
+              });
+            } else if (methods.includes(request.method.toUpperCase())) {
+              retryable =
+                // retryable status code
+                !!value ||
+                isNetworkError(error as Error) ||
+                (error instanceof RetryError &&
+                  error.message === "ATTEMPT_TIMEOUT_REACHED");
+            } else {
+              retryable = false;
+            }
+            // the delay asked by the server
+            const retryAfter = value && getRetryAfter(value.headers);
+            if (retryAfter !== undefined && retryAfter > maxRetryAfter) {
+              retryable = false;
+            }
+            if (retryable) {
+              const { delay = 0 } = rest;
+              nextDelay =
+                retryAfter ??
+                (typeof delay === "function"
+                  ? delay(attemptedTimes, nextDelay)
+                  : delay);
+              // the time budget runs out before the next attempt,
+              // so the last response or error is returned as is
+              if (Date.now() - startTime + nextDelay >= maxElapsedTime) {
+                retryable = false;
+              }
+            }
+            // release the connection of the discarded response
+            if (retryable) await value?.body?.cancel();
+            return retryable;
+          },
+        });
+      } else {
+        response = await attempt();
       }
-      if (init.signal) retryOptions.signal = init.signal;
-      return withRetry<T>(action, retryOptions);
-    } else {
-      return action();
+
+      // throw for non-ok responses if needed
+      if (
+        typeof throwHttpErrors === "function"
+          ? throwHttpErrors(response.status)
+          : throwHttpErrors && !response.ok
+      ) {
+        throw await HttpError.from(response, request);
+      }
+
+      if (onDownloadProgress) {
+        response = trackResponse(response, onDownloadProgress);
+      }
+
+      return { response, request };
+    } catch (error) {
+      // the request is aborted by the timeout
+      const reason = timeoutController.signal.reason;
+      if (reason instanceof TimeoutError) throw reason;
+      // the last attempt is aborted by the timeout per attempt
+      if (
+        error instanceof RetryError &&
+        error.message === "ATTEMPT_TIMEOUT_REACHED"
+      ) {
+        throw new TimeoutError(request, Date.now() - startTime, "attempt", {
+          cause: error,
+        });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutID);
+      combined.cleanup();
+    }
+  };
+
+  // the raw response is transformed only if the returned promise itself is awaited
+  const transform = async (
+    response: Response,
+    request: Request,
+    schema?: StandardSchemaV1,
+  ): Promise<T> => {
+    // validate the parsed body if needed
+    if (schema) {
+      if (options?.transformResponse) {
+        const body = await options.transformResponse(response);
+        return (await validate(schema, body, request)) as T;
+      }
+      const text = await readJSONText(response);
+      let value: unknown;
+      try {
+        value = text ? JSON.parse(text) : undefined;
+      } catch (error) {
+        throw new SchemaValidationError(
+          [{ message: `Invalid JSON (${(error as Error).message})` }],
+          { request, rawBody: text, cause: error },
+        );
+      }
+      return (await validate(schema, value, request, text)) as T;
     }
+
+    // transform the response if needed
+    return options?.transformResponse
+      ? options.transformResponse(response)
+      : (response as T); // if options.transformResponse is not given, T will be Response
+  };
+
+  const knifetch = (
+    rInput: RequestInfo | URL,
+    rInit: KRequestInit = {},
+  ): ResponsePromise<T> => {
+    const shortcut: ResponseShortcut = {};
+    // delay the request, so that body shortcuts can set the Accept header
+    const sent = Promise.resolve().then(() => send(rInput, rInit, shortcut));
+    return toResponsePromise(sent, shortcut, ({ response, request }) =>
+      transform(response, request, rInit.schema),
+    );
   };
+
+  return Object.assign(knifetch, {
+    use(...plugins: Array<Middleware | Plugin>) {
+      middlewares.push(...plugins.map((plugin) => pluginToMiddleware(plugin)));
+      return knifetch as Knifetch<T>;
+    },
+    extend<U = T>(childOptions: KnifetchOptions<U> = {}) {
+      // the child shares the cookie jar, authenticator, circuit breaker,
+      // queue, in-flight requests and middlewares of the parent,
+      // and has its own cache unless a store is given
+      const parentOptions = {
+        ...options,
+        cookieJar,
+        auth: authenticator,
+        circuitBreaker: breaker,
+        plugins: [...middlewares],
+      };
+      // the child has its own queue if it sets its own limits
+      const ownLimits =
+        childOptions.concurrency !== undefined ||
+        childOptions.rateLimit !== undefined;
+      return createInstance<U>(mergeOptions(parentOptions, childOptions), {
+        limiter: ownLimits ? undefined : limiter,
+        deduper,
+      });
+    },
+    create: createKnifetch,
+    queueStats: () => limiter.stats(),
+    paginate: <I = unknown>(
+      input: RequestInfo | URL,
+      init?: PaginateInit,
+      paginateOptions?: PaginateOptions<I>,
+    ) =>
+      paginate<I>(
+        (input, init, complete) =>
+          send(input, init, { accept: "application/json" }, !complete),
+        input,
+        init,
+        paginateOptions,
+      ),
+    sse: <D = string>(
+      input: RequestInfo | URL,
+      init?: SSEInit,
+      sseOptions?: SSEOptions<D>,
+    ) =>
+      streamEvents<D>(
+        (input, init) =>
+          send(
+            input,
+            { ...init, throwHttpErrors: true },
+            { accept: "text/event-stream" },
+          ).then(({ response }) => response),
+        input,
+        init,
+        sseOptions,
+      ),
+  });
 }
 
 export const knifetch = /*#__PURE__*/ createKnifetch();
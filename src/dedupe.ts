@@ -0,0 +1,101 @@
+interface Caller {
+  resolve(response: Response): void;
+  reject(error: unknown): void;
+}
+
+interface InFlight {
+  controller: AbortController;
+  callers: Set<Caller>;
+}
+
+const DEDUPE_METHODS = new Set(["GET", "HEAD"]);
+
+/**
+ * Share one fetch among concurrent identical GET and HEAD requests,
+ * i.e. requests with the same method, url and headers.
+ */
+export class Deduper {
+  private _inflight = new Map<string, InFlight>();
+
+  /**
+   * Send the request, or join an identical one in flight.
+   * Each caller gets its own clone of the response, and the shared fetch
+   * is only aborted once every caller has aborted.
+   *
+   * @param request The request to send
+   * @param next Send the request to the network
+   */
+  fetch(
+    request: Request,
+    next: (request: Request) => Promise<Response>,
+  ): Promise<Response> {
+    if (!DEDUPE_METHODS.has(request.method.toUpperCase())) {
+      return next(request);
+    }
+    const { signal } = request;
+    if (signal.aborted) return Promise.reject(signal.reason);
+
+    const key = JSON.stringify([
+      request.method,
+      request.url,
+      [...request.headers],
+    ]);
+    let inflight = this._inflight.get(key);
+    if (!inflight) {
+      const entry: InFlight = {
+        controller: new AbortController(),
+        callers: new Set(),
+      };
+      this._inflight.set(key, entry);
+      const settle = () => {
+        if (this._inflight.get(key) === entry) this._inflight.delete(key);
+        return [...entry.callers];
+      };
+      // the shared fetch is not aborted by the signal of the first caller
+      next(new Request(request, { signal: entry.controller.signal })).then(
+        (response) => {
+          const callers = settle();
+          if (callers.length === 0) {
+            response.body?.cancel().catch(() => {});
+            return;
+          }
+          // clone before the original response is given to the last caller
+          const responses = callers.map((_, i) =>
+            i === callers.length - 1 ? response : response.clone(),
+          );
+          for (const [i, caller] of callers.entries()) {
+            caller.resolve(responses[i]!);
+          }
+        },
+        (error) => {
+          for (const caller of settle()) caller.reject(error);
+        },
+      );
+      inflight = entry;
+    }
+
+    const entry = inflight;
+    return new Promise<Response>((resolve, reject) => {
+      const onAbort = () => {
+        entry.callers.delete(caller);
+        reject(signal.reason);
+        if (entry.callers.size === 0) {
+          if (this._inflight.get(key) === entry) this._inflight.delete(key);
+          entry.controller.abort(signal.reason);
+        }
+      };
+      const caller: Caller = {
+        resolve(response) {
+          signal.removeEventListener("abort", onAbort);
+          resolve(response);
+        },
+        reject(error) {
+          signal.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+      };
+      entry.callers.add(caller);
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+}
@@ -1,3 +1,6 @@
+import { readBytes } from "./body";
+import type { StandardSchemaV1 } from "./schema";
+
 /**
  * Port of https://github.com/sindresorhus/is-network-error/blob/main/index.js
  */
@@ -36,17 +39,236 @@ export default function isNetworkError(error: Error): boolean {
   return errorMessages.has(error.message);
 }
 
+/**
+ * Problem details for HTTP APIs
+ * @see {@link https://www.rfc-editor.org/rfc/rfc9457.html}
+ */
+export interface ProblemDetails {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+  [extension: string]: unknown;
+}
+
+export interface HttpErrorOptions extends ErrorOptions {
+  /**
+   * The request which the response is received from
+   */
+  request?: Request;
+  /**
+   * A (possibly truncated) snippet of the response body
+   */
+  body?: string;
+  /**
+   * Problem details parsed from a JSON response body
+   */
+  problem?: ProblemDetails;
+}
+
+/**
+ * Max bytes of the response body to be read into `HttpError.body`
+ */
+const BODY_SNIPPET_LIMIT = 4096;
+
+/**
+ * Read at most `limit` bytes of the body as text, the rest of the body is discarded
+ */
+async function readBodySnippet(response: Response, limit: number) {
+  if (!response.body) return "";
+  const { bytes } = await readBytes(response.body, limit);
+  return new TextDecoder().decode(bytes.subarray(0, limit));
+}
+
+function parseProblemDetails(
+  response: Response,
+  body: string,
+): ProblemDetails | undefined {
+  const contentType = response.headers.get("content-type") || "";
+  if (!/[/+]json\b/i.test(contentType)) return;
+  try {
+    const data = JSON.parse(body);
+    // problem details must be a JSON object
+    if (data && typeof data === "object" && !Array.isArray(data)) return data;
+  } catch {
+    // the body is truncated or malformed
+  }
+}
+
 export class HttpError extends Error {
   readonly name = "HttpError";
   readonly code = "ERR_HTTP_RESPONSE_NOT_OK";
   response: Response;
+  request?: Request;
+  body?: string;
+  problem?: ProblemDetails;
 
-  constructor(response: Response) {
+  constructor(response: Response, options?: HttpErrorOptions) {
     const status = `${response.status} ${response.statusText}`.trim();
     const reason = status ? `status code ${status}` : "an unknown error";
-    super(`Request failed with ${reason}: ${response.url}`);
+    const url = response.url || options?.request?.url || "";
+    super(`Request failed with ${reason}: ${url}`, options);
     // @ts-ignore
     Error.captureStackTrace?.(this, this.constructor);
     this.response = response;
+    this.request = options?.request;
+    this.body = options?.body;
+    this.problem = options?.problem;
+  }
+
+  /**
+   * Create an `HttpError` with a pre-read and size-capped body snippet,
+   * the body of `response` itself is left unused.
+   *
+   * @param response The non-ok response
+   * @param request The request which the response is received from
+   * @param limit Max bytes of the body to read
+   */
+  static async from(
+    response: Response,
+    request?: Request,
+    limit = BODY_SNIPPET_LIMIT,
+  ): Promise<HttpError> {
+    let body: string | undefined;
+    try {
+      body = await readBodySnippet(response.clone(), limit);
+    } catch {
+      // the body is not readable, e.g. already used
+    }
+    const problem = body ? parseProblemDetails(response, body) : undefined;
+    return new HttpError(response, { request, body, problem });
+  }
+}
+
+export class BodyReplayError extends Error {
+  readonly name = "BodyReplayError";
+  readonly code = "ERR_BODY_NOT_REPLAYABLE";
+  request: Request;
+
+  constructor(request: Request, limit: number) {
+    super(
+      `Request body exceeds ${limit} bytes and cannot be buffered for retries: ${request.url}`,
+    );
+    // @ts-ignore
+    Error.captureStackTrace?.(this, this.constructor);
+    this.request = request;
+  }
+}
+
+export interface SchemaValidationErrorOptions extends ErrorOptions {
+  /**
+   * The request which the response is received from
+   */
+  request?: Request;
+  /**
+   * The parsed body which failed the validation
+   */
+  body?: unknown;
+  /**
+   * The raw text of the body, if it is parsed as JSON by knifetch
+   */
+  rawBody?: string;
+}
+
+export class SchemaValidationError extends Error {
+  readonly name = "SchemaValidationError";
+  readonly code = "ERR_SCHEMA_VALIDATION_FAILED";
+  issues: ReadonlyArray<StandardSchemaV1.Issue>;
+  request?: Request;
+  body?: unknown;
+  rawBody?: string;
+
+  constructor(
+    issues: ReadonlyArray<StandardSchemaV1.Issue>,
+    options?: SchemaValidationErrorOptions,
+  ) {
+    const reason = issues.map((issue) => issue.message).join("; ");
+    const url = options?.request?.url || "";
+    super(
+      `Response body failed schema validation (${reason}): ${url}`,
+      options,
+    );
+    // @ts-ignore
+    Error.captureStackTrace?.(this, this.constructor);
+    this.issues = issues;
+    this.request = options?.request;
+    this.body = options?.body;
+    this.rawBody = options?.rawBody;
+  }
+}
+
+export class TimeoutError extends Error {
+  readonly name = "TimeoutError";
+  readonly code = "ERR_REQUEST_TIMEOUT";
+  request: Request;
+  /**
+   * Elapsed time in ms since the request started
+   */
+  elapsed: number;
+  /**
+   * Which timeout is reached, `timeout` of the entire request,
+   * or `retry.timeout` of the last attempt
+   */
+  scope: "request" | "attempt";
+
+  constructor(
+    request: Request,
+    elapsed: number,
+    scope: "request" | "attempt" = "request",
+    options?: ErrorOptions,
+  ) {
+    super(
+      `${scope === "attempt" ? "Last attempt of the request" : "Request"} timed out after ${elapsed}ms: ${request.url}`,
+      options,
+    );
+    // @ts-ignore
+    Error.captureStackTrace?.(this, this.constructor);
+    this.request = request;
+    this.elapsed = elapsed;
+    this.scope = scope;
+  }
+}
+
+export class CircuitOpenError extends Error {
+  readonly name = "CircuitOpenError";
+  readonly code = "ERR_CIRCUIT_OPEN";
+  /**
+   * The key of the circuit, the origin of the request by default
+   */
+  key: string;
+  /**
+   * Time in ms until the circuit lets a trial request through
+   */
+  retryAfter: number;
+
+  constructor(key: string, retryAfter: number) {
+    super(`Circuit is open for ${key}, retry after ${retryAfter}ms`);
+    // @ts-ignore
+    Error.captureStackTrace?.(this, this.constructor);
+    this.key = key;
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class NDJSONParseError extends Error {
+  readonly name = "NDJSONParseError";
+  readonly code = "ERR_NDJSON_PARSE";
+  /**
+   * The line number of the malformed line, starting from 1
+   */
+  line: number;
+  /**
+   * The text of the malformed line
+   */
+  text: string;
+
+  constructor(line: number, text: string, cause?: unknown) {
+    const reason = cause instanceof Error ? `: ${cause.message}` : "";
+    super(`Invalid JSON at line ${line}${reason}`, { cause });
+    // @ts-ignore
+    Error.captureStackTrace?.(this, this.constructor);
+    this.line = line;
+    this.text = text;
   }
 }
@@ -1 +1,46 @@
 export * from "./core";
+export * from "./error";
+export * from "./backoff";
+export { RetryError } from "./retry";
+export type { Hooks, KnifetchContext, Middleware, Plugin } from "./middleware";
+export { CookieJar } from "./cookiejar";
+export type {
+  CookieChangeEvent,
+  CookieChangeListener,
+  CookieContext,
+  CookieFilter,
+  CookieJarOptions,
+} from "./cookiejar";
+export {
+  FileCookieStore,
+  formatNetscape,
+  MemoryCookieStore,
+  parseNetscape,
+} from "./cookiestore";
+export type { CookieStore, SerializedCookie } from "./cookiestore";
+export type { Cookie, CookiePriority, CookieSameSite } from "./cookie";
+export { Authenticator } from "./auth";
+export type { AuthOptions, TokenProvider } from "./auth";
+export { CircuitBreaker } from "./breaker";
+export type { CircuitBreakerOptions, CircuitState } from "./breaker";
+export { LRUCacheStore, MemoryCacheStore } from "./cache";
+export type { CacheOptions, CacheStore, CachedResponse } from "./cache";
+export type {
+  ConcurrencyOptions,
+  QueueStats,
+  RateLimitOptions,
+} from "./limiter";
+export { parseNDJSON, readNDJSON } from "./ndjson";
+export { parseLinkHeader } from "./paginate";
+export type {
+  Link,
+  NextPage,
+  PageContext,
+  PaginateInit,
+  PaginateOptions,
+} from "./paginate";
+export type { Progress, ProgressCallback } from "./progress";
+export type { ResponsePromise } from "./response";
+export { EventStreamParser } from "./sse";
+export type { ServerSentEvent, SSEInit, SSEOptions } from "./sse";
+export type { StandardSchemaV1 } from "./schema";
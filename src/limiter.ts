@@ -0,0 +1,200 @@
+export interface ConcurrencyOptions {
+  /**
+   * Maximum number of requests sent at the same time.
+   * @default {Infinity}
+   */
+  global?: number;
+  /**
+   * Maximum number of requests sent at the same time to each origin.
+   * @default {Infinity}
+   */
+  perOrigin?: number;
+}
+
+export interface RateLimitOptions {
+  /**
+   * Maximum number of requests sent per `interval`, bursts are allowed up to this number.
+   */
+  limit: number;
+  /**
+   * The interval in ms.
+   */
+  interval: number;
+}
+
+export interface QueueStats {
+  /** Requests being sent. */
+  active: number;
+  /** Requests waiting in the queue. */
+  pending: number;
+  /** Requests waiting in the queue, by origin. */
+  pendingByOrigin: Record<string, number>;
+  /** The wait time in ms of the oldest request in the queue. */
+  oldestWaitTime: number;
+  /** The average wait time in ms of the requests which have left the queue. */
+  averageWaitTime: number;
+}
+
+interface QueueEntry {
+  origin: string;
+  rank: number;
+  enqueuedAt: number;
+  start(): void;
+}
+
+const PRIORITY_RANKS: Record<RequestPriority, number> = {
+  high: 0,
+  auto: 1,
+  low: 2,
+};
+
+/**
+ * Limit the concurrency and the rate of requests, with a priority queue.
+ * Requests of the same priority are sent in order, but a request is not blocked
+ * by an earlier one waiting for another origin.
+ */
+export class Limiter {
+  readonly concurrency: Required<ConcurrencyOptions>;
+  readonly rateLimit?: RateLimitOptions;
+
+  private _queue: QueueEntry[] = [];
+  private _active = 0;
+  private _activeByOrigin = new Map<string, number>();
+  private _tokens: number;
+  private _refilledAt = Date.now();
+  private _timer?: ReturnType<typeof setTimeout>;
+  private _served = 0;
+  private _totalWaitTime = 0;
+
+  constructor(
+    concurrency: number | ConcurrencyOptions = {},
+    rateLimit?: RateLimitOptions,
+  ) {
+    const { global = Infinity, perOrigin = Infinity } =
+      typeof concurrency === "number" ? { global: concurrency } : concurrency;
+    this.concurrency = { global, perOrigin };
+    this.rateLimit = rateLimit;
+    this._tokens = rateLimit?.limit ?? Infinity;
+  }
+
+  /**
+   * Wait for a slot to send a request.
+   *
+   * @param origin The origin of the request
+   * @param priority The priority of the request in the queue
+   * @param signal Leave the queue once aborted, rejecting with its reason
+   * @returns A function to release the slot, once the request is done
+   */
+  acquire(
+    origin: string,
+    priority: RequestPriority = "auto",
+    signal?: AbortSignal | null,
+  ): Promise<() => void> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this._queue.splice(this._queue.indexOf(entry), 1);
+        reject(signal?.reason);
+      };
+      const entry: QueueEntry = {
+        origin,
+        rank: PRIORITY_RANKS[priority] ?? PRIORITY_RANKS.auto,
+        enqueuedAt: Date.now(),
+        start: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(this._start(entry));
+        },
+      };
+      // after the requests of the same or higher priorities
+      const index = this._queue.findIndex((e) => e.rank > entry.rank);
+      this._queue.splice(index === -1 ? this._queue.length : index, 0, entry);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this._next();
+    });
+  }
+
+  /**
+   * Get the state of the queue.
+   */
+  stats(): QueueStats {
+    const pendingByOrigin: Record<string, number> = {};
+    let oldest = Infinity;
+    for (const entry of this._queue) {
+      pendingByOrigin[entry.origin] = (pendingByOrigin[entry.origin] ?? 0) + 1;
+      oldest = Math.min(oldest, entry.enqueuedAt);
+    }
+    return {
+      active: this._active,
+      pending: this._queue.length,
+      pendingByOrigin,
+      oldestWaitTime: this._queue.length > 0 ? Date.now() - oldest : 0,
+      averageWaitTime: this._served ? this._totalWaitTime / this._served : 0,
+    };
+  }
+
+  private _start(entry: QueueEntry) {
+    this._active++;
+    this._activeByOrigin.set(
+      entry.origin,
+      (this._activeByOrigin.get(entry.origin) ?? 0) + 1,
+    );
+    this._served++;
+    this._totalWaitTime += Date.now() - entry.enqueuedAt;
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this._active--;
+      const active = this._activeByOrigin.get(entry.origin)! - 1;
+      if (active > 0) this._activeByOrigin.set(entry.origin, active);
+      else this._activeByOrigin.delete(entry.origin);
+      this._next();
+    };
+  }
+
+  /**
+   * Start the queued requests allowed by the limits.
+   */
+  private _next() {
+    clearTimeout(this._timer);
+    this._timer = undefined;
+    let index = 0;
+    while (index < this._queue.length) {
+      if (this._active >= this.concurrency.global) return;
+      const entry = this._queue[index]!;
+      const active = this._activeByOrigin.get(entry.origin) ?? 0;
+      if (active >= this.concurrency.perOrigin) {
+        index++;
+        continue;
+      }
+      if (!this._takeToken()) {
+        // wait until the next token is refilled
+        const { limit, interval } = this.rateLimit!;
+        const wait = ((1 - this._tokens) * interval) / limit;
+        this._timer = setTimeout(() => this._next(), Math.ceil(wait));
+        return;
+      }
+      this._queue.splice(index, 1);
+      entry.start();
+    }
+  }
+
+  /**
+   * Take a token from the bucket, which is refilled continuously.
+   */
+  private _takeToken() {
+    if (this.rateLimit) {
+      const { limit, interval } = this.rateLimit;
+      const now = Date.now();
+      this._tokens = Math.min(
+        limit,
+        this._tokens + ((now - this._refilledAt) * limit) / interval,
+      );
+      this._refilledAt = now;
+    }
+    if (this._tokens < 1) return false;
+    this._tokens--;
+    return true;
+  }
+}
@@ -0,0 +1,72 @@
+import type { KnifetchOptions, KRequestInit } from "./core";
+import type { Plugin } from "./middleware";
+
+/**
+ * Merge headers case-insensitively, later ones override earlier ones.
+ */
+export function mergeHeaders(...inits: Array<HeadersInit | undefined>) {
+  const headers = new Headers();
+  for (const init of inits) {
+    if (!init) continue;
+    for (const [name, value] of new Headers(init)) headers.set(name, value);
+  }
+  return headers;
+}
+
+/**
+ * Merge retry options, later ones override earlier ones.
+ * A number is taken as `maxTries`, `true` enables retry with the earlier options.
+ */
+export function mergeRetry(
+  parent: KRequestInit["retry"],
+  child: KRequestInit["retry"],
+): KRequestInit["retry"] {
+  if (child === undefined || child === false) return child ?? parent;
+  if (!parent || parent === true) return child;
+  const options = typeof parent === "number" ? { maxTries: parent } : parent;
+  if (child === true) return options;
+  if (typeof child === "number") return { ...options, maxTries: child };
+  return { ...options, ...child };
+}
+
+/**
+ * Resolve the base url of a child instance relative to the parent one.
+ */
+export function resolveBaseURL(parent?: string, child?: string) {
+  if (!parent || child === undefined) return child ?? parent;
+  // treat the parent as a directory
+  const base = parent.endsWith("/") ? parent : `${parent}/`;
+  try {
+    return new URL(child, base).href;
+  } catch {
+    // the parent is not an absolute url, e.g. `/api` in browsers
+    return `${base}${child.replace(/^\/+/, "")}`;
+  }
+}
+
+/**
+ * Merge options of a child instance into the options of the parent one.
+ *
+ * Headers are merged case-insensitively, query objects are combined,
+ * `baseURL` is resolved relative to the parent, and hooks are appended,
+ * so hooks and plugins of the parent run outside of those of the child.
+ */
+export function mergeOptions<T, U>(
+  parent: KnifetchOptions<T>,
+  child: KnifetchOptions<U>,
+): KnifetchOptions<U> {
+  const { onRequest, onResponse, onFetchError, ...rest } = parent;
+  const hooks: Plugin[] =
+    onRequest || onResponse || onFetchError
+      ? [{ onRequest, onResponse, onFetchError }]
+      : [];
+  return {
+    ...(rest as KnifetchOptions<unknown> as KnifetchOptions<U>),
+    ...child,
+    baseURL: resolveBaseURL(parent.baseURL, child.baseURL),
+    headers: mergeHeaders(parent.headers, child.headers),
+    query: { ...parent.query, ...child.query },
+    retry: mergeRetry(parent.retry, child.retry),
+    plugins: [...(parent.plugins || []), ...hooks, ...(child.plugins || [])],
+  };
+}
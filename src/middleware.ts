@@ -0,0 +1,135 @@
+import type { KRequestInit } from "./core";
+import type { Awaitable, Nullable } from "./types";
+
+/**
+ * The context shared by middlewares of a single attempt.
+ */
+export interface KnifetchContext {
+  /**
+   * The request to be sent, can be replaced before calling `next`.
+   */
+  request: Request;
+  /**
+   * The response, available after `next` resolves.
+   * Can be replaced after calling `next`, or set without calling `next` to short-circuit.
+   */
+  response?: Response;
+  /**
+   * The init options of the request.
+   */
+  readonly init: Readonly<KRequestInit>;
+}
+
+/**
+ * Koa-like middleware, the first registered middleware is the outermost one.
+ */
+export type Middleware = (
+  ctx: KnifetchContext,
+  next: () => Promise<void>,
+) => Awaitable<void>;
+
+/**
+ * Interceptor hooks of a request.
+ */
+export interface Hooks {
+  /**
+   * Pre-request interceptor function.
+   */
+  onRequest?({ request }: { request: Request }): Awaitable<Request | void>;
+
+  /**
+   * Post-response interceptor function.
+   */
+  onResponse?({
+    request,
+    response,
+  }: {
+    request: Request;
+    response: Response;
+  }): Awaitable<Response | void>;
+
+  /**
+   * Error handler for failed fetch requests.
+   * Returning a Response will trigger onResponse interceptor.
+   */
+  onFetchError?({
+    request,
+    error,
+  }: {
+    request: Request;
+    error: unknown;
+  }): Awaitable<Response | void>;
+}
+
+/**
+ * A plugin bundles several hooks and a middleware,
+ * the hooks are run inside the middleware.
+ */
+export interface Plugin extends Hooks {
+  name?: string;
+  middleware?: Middleware;
+}
+
+/**
+ * Adapt interceptor hooks as a middleware.
+ */
+export function hooksToMiddleware(hooks: Hooks): Middleware {
+  return async (ctx, next) => {
+    // call onRequest interceptor
+    const onRequestResult: Nullable<Request> = await hooks.onRequest?.({
+      request: ctx.request,
+    });
+    if (onRequestResult instanceof Request) ctx.request = onRequestResult;
+
+    try {
+      await next();
+    } catch (error) {
+      // handle fetch errors with onFetchError interceptor
+      const onFetchErrorResult: Nullable<Response> = await hooks.onFetchError?.(
+        { request: ctx.request, error },
+      );
+      if (onFetchErrorResult instanceof Response) {
+        // if onFetchError returns a Response, use it as the final response
+        ctx.response = onFetchErrorResult;
+      } else {
+        // otherwise, error is considered not handled, rethrow the error
+        throw error;
+      }
+    }
+
+    // call onResponse interceptor
+    const onResponseResult: Nullable<Response> = await hooks.onResponse?.({
+      request: ctx.request,
+      response: ctx.response!,
+    });
+    if (onResponseResult instanceof Response) ctx.response = onResponseResult;
+  };
+}
+
+/**
+ * Convert a plugin to a single middleware.
+ */
+export function pluginToMiddleware(plugin: Plugin | Middleware): Middleware {
+  if (typeof plugin === "function") return plugin;
+  const hooks = hooksToMiddleware(plugin);
+  if (!plugin.middleware) return hooks;
+  return compose([plugin.middleware, hooks]);
+}
+
+/**
+ * Compose middlewares into one, like koa-compose.
+ */
+export function compose(middlewares: Middleware[]): Middleware {
+  return (ctx, next) => {
+    let index = -1;
+    const dispatch = async (i: number): Promise<void> => {
+      if (i <= index) throw new Error("next() called multiple times");
+      index = i;
+      const middleware: Middleware | undefined =
+        i === middlewares.length ? next : middlewares[i];
+      if (!middleware) return;
+      await middleware(ctx, () => dispatch(i + 1));
+    };
+    return dispatch(0);
+  };
+}
@@ -0,0 +1,85 @@
+import { NDJSONParseError } from "./error";
+
+/**
+ * Parse a newline-delimited JSON (NDJSON, JSON Lines) stream, one value per line.
+ * Lines may end with LF or CRLF, empty lines are skipped,
+ * and the last line may have no line break.
+ *
+ * @param stream The stream of UTF-8 text
+ * @throws {NDJSONParseError} If a line is not valid JSON
+ */
+export async function* parseNDJSON<T = unknown>(
+  stream: ReadableStream<Uint8Array>,
+): AsyncGenerator<T, void, undefined> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let lineNumber = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += done
+        ? decoder.decode()
+        : decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      // the last line is incomplete until the stream ends
+      buffer = done ? "" : lines.pop()!;
+      for (const line of lines) {
+        lineNumber++;
+        const text = line.endsWith("\r") ? line.slice(0, -1) : line;
+        if (!text.trim()) continue;
+        let parsed: T;
+        try {
+          parsed = JSON.parse(text);
+        } catch (error) {
+          throw new NDJSONParseError(lineNumber, text, error);
+        }
+        yield parsed;
+      }
+      if (done) return;
+    }
+  } finally {
+    // release the connection if the iteration is stopped early
+    await reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Parse the NDJSON body of a response, see `parseNDJSON`.
+ */
+export async function* readNDJSON<T = unknown>(
+  response: Response,
+): AsyncGenerator<T, void, undefined> {
+  if (response.body) yield* parseNDJSON<T>(response.body);
+}
+
+/**
+ * Serialize values as a NDJSON stream, the values are pulled as the stream is read.
+ */
+export function toNDJSONStream(
+  values: AsyncIterable<unknown> | Iterable<unknown>,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let iterator: AsyncIterator<unknown> | Iterator<unknown>;
+  return new ReadableStream({
+    start() {
+      iterator =
+        Symbol.asyncIterator in values
+          ? values[Symbol.asyncIterator]()
+          : values[Symbol.iterator]();
+    },
+    async pull(controller) {
+      const { done, value } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        // `undefined` is not JSON, which is `null` in arrays too
+        const json = JSON.stringify(value) ?? "null";
+        controller.enqueue(encoder.encode(`${json}\n`));
+      }
+    },
+    async cancel(reason) {
+      await iterator.return?.(reason);
+    },
+  });
+}
@@ -0,0 +1,183 @@
+import type { KRequestInit } from "./core";
+import { readJSON } from "./response";
+import type { Awaitable } from "./types";
+
+/**
+ * A link of a `Link` header, `rel` is lower-cased and split by spaces.
+ */
+export interface Link {
+  url: string;
+  rel: string[];
+  params: Record<string, string>;
+}
+
+/**
+ * Parse a `Link` header.
+ * @see {@link https://www.rfc-editor.org/rfc/rfc8288.html#section-3}
+ */
+export function parseLinkHeader(header: string): Link[] {
+  const links: Link[] = [];
+  const linkPattern =
+    /<([^>]*)>((?:\s*;\s*[\w!#$%&'*+.^`|~-]+\*?\s*(?:=\s*(?:"(?:[^"\\]|\\.)*"|[^\s",;]*))?)*)/g;
+  const paramPattern =
+    /;\s*([\w!#$%&'*+.^`|~-]+\*?)\s*(?:=\s*("(?:[^"\\]|\\.)*"|[^\s",;]*))?/g;
+  for (const [, url, rest] of header.matchAll(linkPattern)) {
+    const params: Record<string, string> = {};
+    for (const [, name, value = ""] of rest!.matchAll(paramPattern)) {
+      const key = name!.toLowerCase();
+      // only the first occurrence of a parameter is used
+      if (key in params) continue;
+      params[key] = value.startsWith('"')
+        ? value.slice(1, -1).replaceAll(/\\(.)/g, "$1")
+        : value;
+    }
+    const rel = (params.rel || "").toLowerCase().split(/\s+/).filter(Boolean);
+    links.push({ url: url!, rel, params });
+  }
+  return links;
+}
+
+/**
+ * A page of the pagination, `data` is the parsed JSON body.
+ */
+export interface PageContext {
+  response: Response;
+  data: unknown;
+}
+
+/**
+ * The request of the next page:
+ * - a url, which replaces the url and `query` of the current page,
+ *   the `query` of the instance is not added to it
+ * - request options, which are merged into the ones of the current page,
+ *   e.g. `{ query: { cursor } }`
+ * - `false` or `undefined` to stop
+ */
+export type NextPage = string | URL | KRequestInit | false | undefined;
+
+export interface PaginateOptions<I> {
+  /**
+   * Get the items of a page, the default is the JSON body if it is an array.
+   */
+  items?(context: PageContext): Awaitable<I[]>;
+
+  /**
+   * Get the request of the next page,
+   * the default is the `rel="next"` link of the `Link` header.
+   */
+  next?(context: PageContext & { items: I[] }): Awaitable<NextPage>;
+
+  /**
+   * Maximum number of items to yield.
+   * @default {Infinity}
+   */
+  limit?: number;
+
+  /**
+   * Maximum number of pages to request.
+   * @default {Infinity}
+   */
+  maxPages?: number;
+
+  /**
+   * Follow a next page on another origin than the first page,
+   * which receives the credentials of the instance, e.g. `auth` and `headers`.
+   * A `TypeError` is thrown for such a page if it is not allowed.
+   * @default {false}
+   */
+  allowCrossOrigin?: boolean;
+}
+
+/**
+ * Options of the request of every page, as the body is parsed for items,
+ * `schema` is not supported.
+ */
+export type PaginateInit = Omit<KRequestInit, "schema">;
+
+function defaultItems<I>({ data }: PageContext): I[] {
+  if (data === undefined) return [];
+  if (!Array.isArray(data)) {
+    throw new TypeError(
+      "The body of the page is not an array, use the `items` option to get the items",
+    );
+  }
+  return data;
+}
+
+function defaultNext({ response }: PageContext): NextPage {
+  const header = response.headers.get("link") || "";
+  return parseLinkHeader(header).find((link) => link.rel.includes("next"))?.url;
+}
+
+/**
+ * Request pages one by one, and yield the items of each page.
+ *
+ * @param fetchPage Request a page, and resolve with the raw response and the sent request,
+ * `complete` is `true` once the url is given by `next`, so the query of the instance is not added
+ * @param input The request of the first page
+ * @param init Options of the request of every page
+ * @param options Pagination options
+ */
+export async function* paginate<I>(
+  fetchPage: (
+    input: RequestInfo | URL,
+    init: PaginateInit,
+    complete: boolean,
+  ) => Promise<{ response: Response; request: Request }>,
+  input: RequestInfo | URL,
+  init: PaginateInit = {},
+  options: PaginateOptions<I> = {},
+): AsyncGenerator<I, void, undefined> {
+  const {
+    items: getItems = defaultItems<I>,
+    next: getNext = defaultNext,
+    limit = Infinity,
+    maxPages = Infinity,
+    allowCrossOrigin = false,
+  } = options;
+  let origin: string | undefined;
+  let pageInput = input;
+  let pageInit = init;
+  let complete = false;
+  let count = 0;
+
+  for (let pages = 0; pages < maxPages && count < limit; pages++) {
+    init.signal?.throwIfAborted();
+    const { response, request } = await fetchPage(
+      pageInput,
+      pageInit,
+      complete,
+    );
+    const pageURL = response.url || request.url;
+    origin ??= new URL(pageURL).origin;
+    const data = await readJSON(response);
+    const items = await getItems({ response, data });
+    for (const item of items) {
+      if (count >= limit) return;
+      yield item;
+      count++;
+    }
+    if (count >= limit) return;
+
+    const next = await getNext({ response, data, items });
+    if (!next) return;
+    if (typeof next === "string" || next instanceof URL) {
+      // the url of the next page is complete, relative urls are resolved against the page
+      const url = new URL(next, pageURL);
+      if (url.origin !== origin && !allowCrossOrigin) {
+        throw new TypeError(
+          `The next page is on another origin than the first page, use the \`allowCrossOrigin\` option to follow it: ${url.href}`,
+        );
+      }
+      pageInput = url;
+      pageInit = { ...pageInit, query: undefined };
+      complete = true;
+    } else {
+      pageInit = {
+        ...pageInit,
+        ...next,
+        query: { ...pageInit.query, ...next.query },
+      };
+    }
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * The progress of a body transfer.
+ */
+export interface Progress {
+  /** The bytes transferred so far. */
+  transferredBytes: number;
+  /** The total bytes, `0` if it is unknown until the transfer is done. */
+  totalBytes: number;
+  /** A number between 0 and 1, `0` if the total is unknown until the transfer is done. */
+  percent: number;
+}
+
+export type ProgressCallback = (progress: Progress) => void;
+
+let requestStreams: boolean | undefined;
+
+/**
+ * Whether streamed request bodies (`duplex: "half"`) are supported by the runtime.
+ */
+export function supportsRequestStreams(): boolean {
+  if (requestStreams !== undefined) return requestStreams;
+  let duplexAccessed = false;
+  try {
+    const init: RequestInit & { duplex: "half" } = {
+      method: "POST",
+      body: new ReadableStream(),
+      get duplex(): "half" {
+        duplexAccessed = true;
+        return "half";
+      },
+    };
+    const hasContentType = new Request(
+      "https://example.invalid",
+      init,
+    ).headers.has("content-type");
+    // a stream converted to a string has a content type of text/plain
+    requestStreams = duplexAccessed && !hasContentType;
+  } catch {
+    requestStreams = false;
+  }
+  return requestStreams;
+}
+
+/**
+ * Get the size of a request body without reading it.
+ *
+ * @returns The size in bytes, or `0` if it is unknown, e.g. for streams and FormData
+ */
+export function getBodySize(body: BodyInit | null | undefined): number {
+  if (!body) return 0;
+  if (typeof body === "string") return new TextEncoder().encode(body).length;
+  if (body instanceof URLSearchParams) {
+    return new TextEncoder().encode(body.toString()).length;
+  }
+  if (body instanceof Blob) return body.size;
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    return body.byteLength;
+  }
+  return 0;
+}
+
+/**
+ * Report the progress of a stream as it is read.
+ * The first report is made before any chunk is read, and the last one once the stream is done.
+ */
+export function trackStream(
+  stream: ReadableStream<Uint8Array>,
+  totalBytes: number,
+  onProgress: ProgressCallback,
+): ReadableStream<Uint8Array> {
+  let transferredBytes = 0;
+  const report = (total: number) =>
+    onProgress({
+      transferredBytes,
+      totalBytes: total,
+      percent: total ? Math.min(transferredBytes / total, 1) : 0,
+    });
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      start() {
+        report(totalBytes);
+      },
+      transform(chunk, controller) {
+        transferredBytes += chunk.byteLength;
+        controller.enqueue(chunk);
+        report(totalBytes);
+      },
+      flush() {
+        // the total is known once the stream is done
+        if (transferredBytes !== totalBytes) {
+          onProgress({
+            transferredBytes,
+            totalBytes: transferredBytes,
+            percent: 1,
+          });
+        }
+      },
+    }),
+  );
+}
+
+/**
+ * Report the download progress of a response, with the total from `Content-Length`.
+ *
+ * @returns A response with the same status, headers and url, whose body reports the progress
+ */
+export function trackResponse(
+  response: Response,
+  onProgress: ProgressCallback,
+): Response {
+  if (!response.body) return response;
+  const encoding = response.headers.get("content-encoding");
+  // the length of an encoded body is not the length of the decoded one
+  const totalBytes =
+    encoding && encoding !== "identity"
+      ? 0
+      : Number(response.headers.get("content-length")) || 0;
+  const tracked = new Response(
+    trackStream(response.body, totalBytes, onProgress),
+    response,
+  );
+  // keep the properties which can not be set by the constructor
+  Object.defineProperties(tracked, {
+    url: { value: response.url },
+    redirected: { value: response.redirected },
+  });
+  return tracked;
+}
+
+/**
+ * Report the upload progress of a request, by sending its body as a stream.
+ * The request is returned as is if it has no body, or streamed bodies are not supported.
+ */
+export function trackRequest(
+  request: Request,
+  totalBytes: number,
+  onProgress: ProgressCallback,
+): Request {
+  if (!request.body || !supportsRequestStreams()) return request;
+  const init: RequestInit & { duplex: "half" } = {
+    body: trackStream(request.body, totalBytes, onProgress),
+    duplex: "half",
+  };
+  return new Request(request, init);
+}
@@ -0,0 +1,95 @@
+/**
+ * A small built-in subset of the Public Suffix List, with the most common
+ * multi-label suffixes. Every single-label domain (TLD) is also a public suffix.
+ * Pass `isPublicSuffix` to `CookieJar` for the full list, e.g. from `tldts`.
+ *
+ * @see {@link https://publicsuffix.org/}
+ */
+const PUBLIC_SUFFIXES = /*#__PURE__*/ new Set([
+  // country code second-level domains
+  "ac.uk",
+  "co.uk",
+  "gov.uk",
+  "ltd.uk",
+  "me.uk",
+  "net.uk",
+  "org.uk",
+  "plc.uk",
+  "com.au",
+  "edu.au",
+  "gov.au",
+  "net.au",
+  "org.au",
+  "ac.jp",
+  "co.jp",
+  "go.jp",
+  "ne.jp",
+  "or.jp",
+  "co.nz",
+  "net.nz",
+  "org.nz",
+  "co.za",
+  "com.br",
+  "net.br",
+  "org.br",
+  "com.cn",
+  "edu.cn",
+  "gov.cn",
+  "net.cn",
+  "org.cn",
+  "com.hk",
+  "com.tw",
+  "com.sg",
+  "co.in",
+  "net.in",
+  "org.in",
+  "co.kr",
+  "or.kr",
+  "com.mx",
+  "com.ar",
+  "com.tr",
+  "co.il",
+  // hosting platforms where each subdomain belongs to a different owner
+  "appspot.com",
+  "blogspot.com",
+  "cloudfront.net",
+  "azurewebsites.net",
+  "firebaseapp.com",
+  "github.io",
+  "gitlab.io",
+  "herokuapp.com",
+  "netlify.app",
+  "pages.dev",
+  "vercel.app",
+  "web.app",
+  "workers.dev",
+]);
+
+/**
+ * Check whether the hostname is an IPv4 or IPv6 address.
+ */
+export const isIP = (hostname: string) =>
+  /^[\d.]+$/.test(hostname) || hostname.includes(":");
+
+/**
+ * Check whether a domain is a public suffix, with the built-in list.
+ */
+export function isPublicSuffix(domain: string): boolean {
+  const name = domain.toLowerCase().replace(/^\.|\.$/g, "");
+  return !name.includes(".") || PUBLIC_SUFFIXES.has(name);
+}
+
+/**
+ * Get the registrable domain (eTLD+1) of a hostname, with the built-in list.
+ * IP addresses and public suffixes are returned as is.
+ */
+export function getRegistrableDomain(hostname: string): string {
+  if (isIP(hostname)) return hostname;
+  const labels = hostname.toLowerCase().split(".");
+  for (let i = 1; i < labels.length; i++) {
+    if (isPublicSuffix(labels.slice(i).join("."))) {
+      return labels.slice(i - 1).join(".");
+    }
+  }
+  return hostname;
+}
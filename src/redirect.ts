@@ -0,0 +1,122 @@
+import { type CookieJar, isSameSite } from "./cookiejar";
+import type { Fetch } from "./core";
+
+const REDIRECT_STATUSES = /*#__PURE__*/ new Set([301, 302, 303, 307, 308]);
+
+/**
+ * Same as the limit of the fetch standard
+ * @see {@link https://fetch.spec.whatwg.org/#http-redirect-fetch}
+ */
+const MAX_REDIRECTS = 20;
+
+/**
+ * Headers describing the request body, which are removed when the body is dropped
+ */
+const REQUEST_BODY_HEADERS = [
+  "content-encoding",
+  "content-language",
+  "content-location",
+  "content-type",
+  "content-length",
+];
+
+export interface FollowRedirectsOptions {
+  cookieJar?: CookieJar;
+  /**
+   * Whether the Cookie header is managed by the cookie jar,
+   * if not, the user-provided Cookie header is kept for same-origin hops.
+   */
+  attachCookies: boolean;
+}
+
+/**
+ * Send the request with `redirect: "manual"` and follow redirects by ourselves,
+ * so that cookies are captured from (and attached to) every hop of the redirect chain,
+ * and credentials are never sent to another origin.
+ *
+ * The `redirect` mode of the request is respected.
+ */
+export async function followRedirects(
+  fetch: Fetch,
+  request: Request,
+  { cookieJar, attachCookies }: FollowRedirectsOptions,
+): Promise<Response> {
+  const mode = request.redirect;
+  let current = request;
+
+  for (let redirects = 0; ; redirects++) {
+    // keep the current request unused, its body may be needed by 307 and 308
+    const response = await fetch(
+      new Request(current.clone(), { redirect: "manual" }),
+    );
+
+    await cookieJar?.setCookie(response, {
+      url: current.url,
+      crossSite: !isSameSite(request.url, current.url),
+      method: current.method,
+    });
+
+    const location = response.headers.get("location");
+    if (
+      mode === "manual" ||
+      !REDIRECT_STATUSES.has(response.status) ||
+      location === null
+    ) {
+      return response;
+    }
+    if (mode === "error") {
+      throw new TypeError(`Unexpected redirect to ${location}`);
+    }
+    if (redirects >= MAX_REDIRECTS) {
+      throw new TypeError("Redirect count exceeded");
+    }
+
+    // release the connection, we do not need the body of a redirect response
+    await response.body?.cancel();
+
+    const url = new URL(location, current.url);
+    const headers = new Headers(current.headers);
+    let method = current.method;
+    let body: ArrayBuffer | undefined;
+
+    // https://fetch.spec.whatwg.org/#http-redirect-fetch step 12
+    if (
+      (response.status === 303 && method !== "GET" && method !== "HEAD") ||
+      ((response.status === 301 || response.status === 302) &&
+        method === "POST")
+    ) {
+      method = "GET";
+      for (const name of REQUEST_BODY_HEADERS) headers.delete(name);
+    } else if (current.body) {
+      body = await current.arrayBuffer();
+    }
+
+    // do not leak credentials to another origin
+    if (url.origin !== new URL(current.url).origin) {
+      headers.delete("authorization");
+      headers.delete("proxy-authorization");
+      headers.delete("cookie");
+    }
+
+    if (cookieJar && attachCookies) {
+      headers.delete("cookie");
+      const cookies = await cookieJar.getCookies(url, {
+        crossSite: !isSameSite(request.url, url),
+        method,
+      });
+      if (cookies.length > 0) headers.set("cookie", cookies.join("; "));
+    }
+
+    current = new Request(url, {
+      method,
+      headers,
+      body,
+      redirect: mode,
+      signal: current.signal,
+      credentials: current.credentials,
+      cache: current.cache,
+      keepalive: current.keepalive,
+      referrerPolicy: current.referrerPolicy,
+    });
+  }
+}
@@ -0,0 +1,118 @@
+import { readNDJSON } from "./ndjson";
+
+/**
+ * The promise returned by a knifetch instance, with shortcuts to read the response body.
+ *
+ * Body shortcuts resolve with the body of the raw response (`transformResponse` is skipped),
+ * and set a matching `Accept` header if none is given, when called synchronously.
+ */
+export interface ResponsePromise<T> extends Promise<T> {
+  /**
+   * Parse the body as JSON, resolves `undefined` for 204 and empty bodies.
+   */
+  json<J = unknown>(): Promise<J>;
+  text(): Promise<string>;
+  arrayBuffer(): Promise<ArrayBuffer>;
+  blob(): Promise<Blob>;
+  /**
+   * Parse the body as FormData, resolves an empty FormData for 204 and empty bodies.
+   */
+  formData(): Promise<FormData>;
+  /**
+   * Parse the body as NDJSON (JSON Lines), and iterate the values as they are received.
+   */
+  ndjson<J = unknown>(): AsyncGenerator<J, void, undefined>;
+}
+
+/**
+ * State shared between a `ResponsePromise` and the request it is created for.
+ */
+export interface ResponseShortcut {
+  /**
+   * The `Accept` header of the first called body shortcut.
+   */
+  accept?: string;
+}
+
+const isEmpty = (response: Response) =>
+  response.status === 204 || response.headers.get("content-length") === "0";
+
+/**
+ * Parse the body as JSON, resolves `undefined` for 204 and empty bodies.
+ */
+export async function readJSON(response: Response): Promise<unknown> {
+  const text = await readJSONText(response);
+  return text ? JSON.parse(text) : undefined;
+}
+
+/**
+ * Read the text of a JSON body, resolves an empty string for 204 and empty bodies.
+ */
+export async function readJSONText(response: Response): Promise<string> {
+  return isEmpty(response) ? "" : response.text();
+}
+
+const shortcuts = {
+  json: { accept: "application/json", read: readJSON },
+  text: { accept: "text/*", read: (response: Response) => response.text() },
+  arrayBuffer: {
+    accept: "*/*",
+    read: (response: Response) => response.arrayBuffer(),
+  },
+  blob: { accept: "*/*", read: (response: Response) => response.blob() },
+  formData: {
+    accept: "multipart/form-data",
+    read: (response: Response) =>
+      isEmpty(response) ? new FormData() : response.formData(),
+  },
+};
+
+/**
+ * Create a promise with body shortcuts, which read the raw response,
+ * and the result is only transformed when the promise itself is awaited.
+ *
+ * @param promise The promise of the request, resolves with the raw response
+ * @param shortcut The state to be updated by body shortcuts
+ * @param transform Get the result of the request, called once when the promise is awaited
+ */
+export function toResponsePromise<T, S extends { response: Response }>(
+  promise: Promise<S>,
+  shortcut: ResponseShortcut,
+  transform: (sent: S) => Promise<T>,
+): ResponsePromise<T> {
+  let result: Promise<T> | undefined;
+  const settle = () => (result ??= promise.then(transform));
+  const responsePromise = Object.create(Promise.prototype, {
+    // a lazy promise, so that a body shortcut called later still gets the raw response
+    // eslint-disable-next-line unicorn/no-thenable
+    then: {
+      value: (...args: Parameters<Promise<T>["then"]>) =>
+        settle().then(...args),
+    },
+    catch: {
+      value: (...args: Parameters<Promise<T>["catch"]>) =>
+        settle().catch(...args),
+    },
+    finally: {
+      value: (...args: Parameters<Promise<T>["finally"]>) =>
+        settle().finally(...args),
+    },
+  }) as ResponsePromise<T>;
+  for (const [name, { accept, read }] of Object.entries(shortcuts)) {
+    Object.defineProperty(responsePromise, name, {
+      value: () => {
+        shortcut.accept ??= accept;
+        return promise.then(({ response }) => read(response));
+      },
+    });
+  }
+  Object.defineProperty(responsePromise, "ndjson", {
+    value: () => {
+      shortcut.accept ??= "application/x-ndjson";
+      return (async function* () {
+        yield* readNDJSON((await promise).response);
+      })();
+    },
+  });
+  return responsePromise;
+}
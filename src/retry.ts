@@ -11,6 +11,42 @@ const maybeByAttemptTimes = <T>(
     ? (v as (attemptedTimes: number) => T)(attemptedTimes)
     : v;
 
+/**
+ * compute the delay (in ms) before next attempt,
+ * `previousDelay` is the delay before the last attempt, `0` for the first retry
+ */
+export type DelayFunction = (
+  attemptedTimes: number,
+  previousDelay: number,
+) => number;
+
+/**
+ * Wait for `ms` milliseconds, resolve early if the signal is aborted
+ */
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (signal?.aborted) return resolve();
+    const done = () => {
+      clearTimeout(timeoutID);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timeoutID = setTimeout(done, ms);
+    signal?.addEventListener("abort", done);
+  });
+
+export interface RetryContext<T> {
+  /**
+   * the value of the attempt, only available when the predicate failed
+   */
+  value?: Awaited<T>;
+  /**
+   * the error thrown by the attempt
+   */
+  error: unknown;
+  attemptedTimes: number;
+}
+
 export interface RetryOptions<T> {
   signal?: AbortSignal;
   /**
@@ -23,15 +59,29 @@ export interface RetryOptions<T> {
    */
   maxTries?: number;
   /**
-   * delay time before next attempt
+   * delay time before next attempt, see `./backoff` for backoff strategies
    * @default {0}
    */
-  delay?: MaybeByAttemptTimes<number>;
+  delay?: number | DelayFunction;
   /**
-   * timeout per attempt in ms (NOT for the entire retry)
+   * timeout per attempt in ms (NOT for the entire retry),
+   * the signal passed to the attempt is aborted when it times out
    * @default {60_000}
    */
   timeout?: MaybeByAttemptTimes<number>;
+  /**
+   * time budget in ms for the entire retry, including delays,
+   * an attempt is cut short if the budget runs out,
+   * and no more attempt is made if the delay exceeds the budget
+   * @default {Infinity}
+   */
+  maxElapsedTime?: number;
+  /**
+   * decide whether to do next attempt after an attempt failed,
+   * returning `false` stops retrying, the value (if the predicate failed)
+   * is returned, otherwise the error of the attempt is thrown
+   */
+  shouldRetry?(context: RetryContext<T>): Awaitable<boolean>;
   /**
    * this will run as microtask (so running this callback does not affect retry time)
    */
@@ -42,6 +92,7 @@ export class RetryError extends Error {
   constructor(
     message?: // retry error
       | "MAX_RETRIES_REACHED"
+      | "MAX_ELAPSED_TIME_REACHED"
       | "RETRY_IS_ABORTED"
       // attempt error
       | "ATTEMPT_PREDICATE_FAILED"
@@ -52,36 +103,66 @@ export class RetryError extends Error {
   }
 }
 
+/**
+ * A promise which rejects with the abort reason once the signal is aborted
+ */
+const rejectOnAbort = (signal: AbortSignal) =>
+  new Promise<never>((_, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    signal.addEventListener("abort", () => reject(signal.reason), {
+      once: true,
+    });
+  });
+
 export async function retry<T>(
-  fn: () => Awaitable<T>,
+  fn: (signal: AbortSignal) => Awaitable<T>,
   options: RetryOptions<T> = {},
 ): Promise<T> {
   const maxTries = options?.maxTries || 5;
+  const maxElapsedTime = options?.maxElapsedTime ?? Infinity;
+  const startTime = Date.now();
   let attemptedTimes = 0;
-  let timeoutID: ReturnType<typeof setTimeout> | undefined;
+  let previousDelay = 0;
+
+  const aborted = () =>
+    new RetryError("RETRY_IS_ABORTED", { cause: options.signal?.reason });
 
   const work = async (): Promise<T> => {
+    // the retry may be aborted while waiting for the delay
+    if (options.signal?.aborted) throw aborted();
     if (++attemptedTimes > maxTries)
       throw new RetryError("MAX_RETRIES_REACHED");
 
+    let lastError: unknown;
+    // the value is kept in case the predicate failed
+    let attempt: { value: Awaited<T> } | undefined;
+
+    // each attempt has its own signal, which is aborted
+    // when the attempt times out or the retry is aborted
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(options.signal?.reason);
+    options.signal?.addEventListener("abort", onAbort);
+    let timeoutID: ReturnType<typeof setTimeout> | undefined;
+
     try {
-      // wait time in ms
-      const timeout = maybeByAttemptTimes(
-        options.timeout ?? 60_000,
-        attemptedTimes,
+      // wait time in ms, but not longer than the remaining time budget
+      const timeout = Math.min(
+        maybeByAttemptTimes(options.timeout ?? 60_000, attemptedTimes),
+        maxElapsedTime - (Date.now() - startTime),
+      );
+      timeoutID = setTimeout(
+        () => controller.abort(new RetryError("ATTEMPT_TIMEOUT_REACHED")),
+        timeout,
       );
-
-      const timeoutSymbol = Symbol("timeoutSymbol");
-      const timeoutPromise = new Promise<typeof timeoutSymbol>((resolve) => {
-        clearTimeout(timeoutID);
-        timeoutID = setTimeout(() => resolve(timeoutSymbol), timeout);
-      });
 
       // attempt once, but have timeout
-      const value = await Promise.race([timeoutPromise, fn()]);
+      // the race is still needed in case `fn` ignores the signal
+      const value = await Promise.race([
+        rejectOnAbort(controller.signal),
+        fn(controller.signal),
+      ]);
 
-      if (value === timeoutSymbol)
-        throw new RetryError("ATTEMPT_TIMEOUT_REACHED");
+      attempt = { value: value as Awaited<T> };
 
       if (
         typeof options.predicate === "function" &&
@@ -92,14 +173,37 @@ export async function retry<T>(
       // success
       return value;
     } catch (error) {
+      if (options.signal?.aborted) throw aborted();
+
+      lastError = error;
       // run the callback in the background
       queueMicrotask(() => options.onAttemptFailed?.(error, attemptedTimes));
+
+      if (
+        typeof options.shouldRetry === "function" &&
+        !(await options.shouldRetry({
+          value: attempt?.value,
+          error,
+          attemptedTimes,
+        }))
+      ) {
+        if (attempt) return attempt.value;
+        throw error;
+      }
+    } finally {
+      clearTimeout(timeoutID);
+      options.signal?.removeEventListener("abort", onAbort);
     }
 
     // delay for a while before starting next attempt
-    const delay = maybeByAttemptTimes(options.delay || 0, attemptedTimes);
-    if (delay > 0)
-      await new Promise<void>((resolve) => setTimeout(resolve, delay));
+    const delay =
+      typeof options.delay === "function"
+        ? options.delay(attemptedTimes, previousDelay)
+        : options.delay || 0;
+    if (Date.now() - startTime + delay >= maxElapsedTime)
+      throw new RetryError("MAX_ELAPSED_TIME_REACHED", { cause: lastError });
+    previousDelay = delay;
+    if (delay > 0) await sleep(delay, options.signal);
 
     // do next attempt
     return new Promise<T>((resolve, reject) => {
@@ -111,12 +215,12 @@ export async function retry<T>(
     });
   };
 
-  const abortSymbol = Symbol("abortSymbol");
-  const abortPromise = new Promise<typeof abortSymbol>((resolve) =>
-    options.signal?.addEventListener("abort", () => resolve(abortSymbol)),
-  );
-
-  const result = await Promise.race([abortPromise, work()]);
-  if (result === abortSymbol) throw new RetryError("RETRY_IS_ABORTED");
-  return result;
+  if (!options.signal) return work();
+  // the retry is aborted immediately, even if it is waiting for something else
+  return Promise.race([
+    rejectOnAbort(options.signal).catch(() => {
+      throw aborted();
+    }),
+    work(),
+  ]);
 }
@@ -0,0 +1,34 @@
+/**
+ * Combine signals into one, which is aborted once any of them is aborted.
+ * `AbortSignal.any()` is used if available, which does not keep the combined signal alive.
+ * In older runtimes, listeners are added to the signals until `cleanup` is called,
+ * so that a long-lived signal shared by many requests does not leak them,
+ * and the combined signal is not aborted after that.
+ */
+export function anySignal(signals: Array<AbortSignal | null | undefined>): {
+  signal: AbortSignal;
+  cleanup: () => void;
+} {
+  const sources = signals.filter((signal) => !!signal);
+  if (typeof AbortSignal.any === "function") {
+    return { signal: AbortSignal.any(sources), cleanup: () => {} };
+  }
+
+  const controller = new AbortController();
+  // removes the listeners once aborted or cleaned up
+  const listeners = new AbortController();
+  for (const signal of sources) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    signal.addEventListener("abort", () => controller.abort(signal.reason), {
+      once: true,
+      signal: listeners.signal,
+    });
+  }
+  controller.signal.addEventListener("abort", () => listeners.abort(), {
+    once: true,
+  });
+  return { signal: controller.signal, cleanup: () => listeners.abort() };
+}
@@ -0,0 +1,244 @@
+import type { KRequestInit } from "./core";
+import isNetworkError from "./error";
+import { mergeHeaders } from "./merge";
+import { sleep } from "./retry";
+
+/**
+ * An event of a `text/event-stream` response.
+ */
+export interface ServerSentEvent<D = string> {
+  /**
+   * The event type, `message` if the event has no `event` field.
+   */
+  event: string;
+  data: D;
+  /**
+   * The last event ID, which is kept until an `id` field changes it.
+   */
+  id: string;
+  /**
+   * The reconnection time in ms, if the event has a `retry` field.
+   */
+  retry?: number;
+}
+
+/**
+ * An incremental parser of the `text/event-stream` format.
+ * @see {@link https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation}
+ */
+export class EventStreamParser {
+  /** The ID of the last event, sent as `Last-Event-ID` when reconnecting */
+  lastEventId = "";
+  /** The reconnection time in ms set by the server */
+  retry?: number;
+
+  private _buffer = "";
+  /** Whether the last chunk ends with CR, so that a leading LF is a part of CRLF */
+  private _afterCR = false;
+  private _event = "";
+  private _data?: string[];
+  private _eventRetry?: number;
+
+  /**
+   * Parse a chunk of the stream, and get the events completed by it.
+   */
+  feed(chunk: string): ServerSentEvent[] {
+    let text = this._buffer + chunk;
+    if (this._afterCR && text.startsWith("\n")) text = text.slice(1);
+    this._afterCR = false;
+
+    const events: ServerSentEvent[] = [];
+    let start = 0;
+    for (const match of text.matchAll(/\r\n|\r|\n/g)) {
+      const line = text.slice(start, match.index);
+      start = match.index + match[0].length;
+      if (match[0] === "\r" && start === text.length) this._afterCR = true;
+      const event = this._line(line);
+      if (event) events.push(event);
+    }
+    this._buffer = text.slice(start);
+    return events;
+  }
+
+  /**
+   * Discard the incomplete event, e.g. when the connection is closed.
+   * The last event ID and the reconnection time are kept.
+   */
+  reset() {
+    this._buffer = "";
+    this._afterCR = false;
+    this._event = "";
+    this._data = undefined;
+    this._eventRetry = undefined;
+  }
+
+  private _line(line: string): ServerSentEvent | undefined {
+    // an empty line dispatches the event
+    if (!line) {
+      const { _event: event, _data: data, _eventRetry: retry } = this;
+      this._event = "";
+      this._data = undefined;
+      this._eventRetry = undefined;
+      if (!data) return;
+      return {
+        event: event || "message",
+        data: data.join("\n"),
+        id: this.lastEventId,
+        ...(retry !== undefined && { retry }),
+      };
+    }
+    // a comment, e.g. to keep the connection alive
+    if (line.startsWith(":")) return;
+
+    const index = line.indexOf(":");
+    const field = index === -1 ? line : line.slice(0, index);
+    let value = index === -1 ? "" : line.slice(index + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+    switch (field) {
+      case "event": {
+        this._event = value;
+        break;
+      }
+      case "data": {
+        (this._data ||= []).push(value);
+        break;
+      }
+      case "id": {
+        if (!value.includes("\0")) this.lastEventId = value;
+        break;
+      }
+      case "retry": {
+        if (/^\d+$/.test(value)) {
+          this.retry = Number(value);
+          this._eventRetry = this.retry;
+        }
+        break;
+      }
+      // other fields are ignored
+    }
+  }
+}
+
+async function* readEvents(
+  body: ReadableStream<Uint8Array>,
+  parser: EventStreamParser,
+) {
+  parser.reset();
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield* parser.feed(decoder.decode(value, { stream: true }));
+    }
+  } finally {
+    // release the connection if the iteration is stopped early
+    await reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Options of the request of every connection, as the body is parsed as events,
+ * `schema` is not supported, and `HttpError` is always thrown for non-ok responses.
+ * A streamed `body` can not be sent again when reconnecting.
+ */
+export type SSEInit = Omit<KRequestInit, "schema" | "throwHttpErrors">;
+
+export interface SSEOptions<D> {
+  /**
+   * Parse the data of every event, e.g. `JSON.parse`.
+   */
+  parse?(data: string): D;
+
+  /**
+   * The reconnection time in ms, until the server sets one with a `retry` field.
+   * @default {3000}
+   */
+  retry?: number;
+
+  /**
+   * Maximum number of consecutive reconnections without receiving an event,
+   * `0` disables reconnection.
+   * @default {Infinity}
+   */
+  maxReconnects?: number;
+
+  /**
+   * The `Last-Event-ID` of the first connection, to resume a stream.
+   */
+  lastEventId?: string;
+}
+
+/**
+ * Connect to an event stream, and reconnect when the connection is closed or lost.
+ *
+ * The stream stops with an error for non-ok responses, responses which are not `text/event-stream`,
+ * and errors of the first connection; a `204 No Content` response stops the stream.
+ *
+ * @param fetchStream Request the stream, resolve with the raw response, and throw `HttpError` for non-ok responses
+ * @param input The request url
+ * @param init Options of the request of every connection
+ * @param options Event stream options
+ */
+export async function* streamEvents<D = string>(
+  fetchStream: (input: RequestInfo | URL, init: SSEInit) => Promise<Response>,
+  input: RequestInfo | URL,
+  init: SSEInit = {},
+  options: SSEOptions<D> = {},
+): AsyncGenerator<ServerSentEvent<D>, void, undefined> {
+  const { parse, maxReconnects = Infinity } = options;
+  const { signal } = init;
+  const parser = new EventStreamParser();
+  parser.lastEventId = options.lastEventId || "";
+  let connected = false;
+  let reconnects = 0;
+
+  for (;;) {
+    const headers = mergeHeaders(
+      { accept: "text/event-stream", "cache-control": "no-cache" },
+      init.headers,
+    );
+    if (parser.lastEventId) headers.set("last-event-id", parser.lastEventId);
+
+    let response: Response | undefined;
+    try {
+      response = await fetchStream(input, { ...init, headers });
+    } catch (error) {
+      // a lost connection is retried after the stream is connected once
+      if (!connected || signal?.aborted || !isNetworkError(error as Error)) {
+        throw error;
+      }
+    }
+
+    if (response) {
+      // the server asks the client to stop reconnecting
+      if (response.status === 204) return;
+      const contentType = response.headers.get("content-type") || "";
+      if (!/^text\/event-stream\b/i.test(contentType) || !response.body) {
+        await response.body?.cancel();
+        throw new TypeError(
+          `Expected a text/event-stream response, but received "${contentType}"`,
+        );
+      }
+      connected = true;
+
+      try {
+        for await (const event of readEvents(response.body, parser)) {
+          reconnects = 0;
+          yield {
+            ...event,
+            data: parse ? parse(event.data) : (event.data as D),
+          };
+        }
+      } catch (error) {
+        if (signal?.aborted || !isNetworkError(error as Error)) throw error;
+      }
+    }
+
+    if (reconnects >= maxReconnects) return;
+    reconnects++;
+    await sleep(parser.retry ?? options.retry ?? 3000, signal || undefined);
+    signal?.throwIfAborted();
+  }
+}
@@ -0,0 +1,227 @@
+import { createHash } from "node:crypto";
+import { describe, expect, it, vi } from "vitest";
+import { createKnifetch } from "../src";
+
+const authorizationOf = (fetch: { mock: { calls: unknown[][] } }) =>
+  fetch.mock.calls.map(
+    ([request]) =>
+      (request as Request).headers.get("authorization") ?? undefined,
+  );
+
+describe("auth", () => {
+  it("should send Basic credentials", async () => {
+    const fetch = vi.fn(async (_: Request) => new Response("ok"));
+    const kf = createKnifetch({
+      fetch,
+      auth: { type: "basic", username: "Aladdin", password: "open sesame" },
+    });
+
+    await kf("https://example.net/");
+    await kf("https://example.net/", { headers: { authorization: "Custom" } });
+    expect(authorizationOf(fetch)).toEqual([
+      "Basic QWxhZGRpbjpvcGVuIHNlc2FtZQ==",
+      "Custom",
+    ]);
+  });
+
+  it("should send a static Bearer token", async () => {
+    const fetch = vi.fn(async (_: Request) => new Response("ok"));
+    const kf = createKnifetch({ fetch, auth: { type: "bearer", token: "t" } });
+
+    await kf("https://example.net/");
+    expect(authorizationOf(fetch)).toEqual(["Bearer t"]);
+  });
+
+  describe("token provider", () => {
+    it("should refresh the token once on 401 and replay", async () => {
+      let valid = "t1";
+      const fetch = vi.fn(
+        async (request: Request) =>
+          new Response(await request.text(), {
+            status:
+              request.headers.get("authorization") === `Bearer ${valid}`
+                ? 200
+                : 401,
+          }),
+      );
+      let issued = 0;
+      const token = vi.fn(async () => `t${++issued}`);
+      const kf = createKnifetch({ fetch, auth: { type: "bearer", token } });
+
+      // the token is requested once for concurrent requests
+      await Promise.all([
+        kf("https://example.net/"),
+        kf("https://example.net/"),
+      ]);
+      expect(token).toHaveBeenCalledTimes(1);
+
+      // the token expires
+      valid = "t2";
+      const responses = await Promise.all([
+        kf("https://example.net/", { method: "POST", body: "a" }),
+        kf("https://example.net/", { method: "POST", body: "b" }),
+      ]);
+      expect(responses.map((r) => r.status)).toEqual([200, 200]);
+      // the body is replayed
+      expect(await responses[0]!.text()).toBe("a");
+      expect(token).toHaveBeenCalledTimes(2);
+      expect(token).toHaveBeenLastCalledWith({ refresh: true });
+      expect(fetch).toHaveBeenCalledTimes(6);
+    });
+
+    it("should replay the request only once", async () => {
+      const fetch = vi.fn(async () => new Response(undefined, { status: 401 }));
+      const token = vi.fn(() => "t");
+      const kf = createKnifetch({ fetch, auth: { type: "bearer", token } });
+
+      const response = await kf("https://example.net/");
+      expect(response.status).toBe(401);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should ask for the token again after a failure", async () => {
+      const fetch = vi.fn(async () => new Response("ok"));
+      const token = vi
+        .fn<() => string>()
+        .mockImplementationOnce(() => {
+          throw new Error("unavailable");
+        })
+        .mockReturnValue("t");
+      const kf = createKnifetch({ fetch, auth: { type: "bearer", token } });
+
+      await expect(kf("https://example.net/")).rejects.toThrow("unavailable");
+      expect((await kf("https://example.net/")).ok).toBe(true);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should be shared by extended instances", async () => {
+      const fetch = vi.fn(async () => new Response("ok"));
+      const token = vi.fn(() => "t");
+      const kf = createKnifetch({ fetch, auth: { type: "bearer", token } });
+
+      await kf("https://example.net/");
+      await kf.extend()("https://example.net/");
+      expect(token).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("digest", () => {
+    const realm = "http-auth@example.org";
+    const nonce = "7ypf/xlj9XXwfDPEoM4URrv/xwf94BcCAzFZH4GiTo0v";
+    const opaque = "FQhe/qaU925kfnzjCev0ciny7QMkPqMAFRtzCUYo5tdS";
+    const h = (algorithm: string, data: string) =>
+      createHash(algorithm).update(data).digest("hex");
+
+    // a server which verifies the Digest response of RFC 7616
+    const server = (algorithm: "md5" | "sha256", challenge: string) =>
+      vi.fn(async (request: Request) => {
+        const header = request.headers.get("authorization") || "";
+        const params = Object.fromEntries(
+          [...header.matchAll(/(\w+)=(?:"([^"]*)"|([^\s,]+))/g)].map(
+            ([, key, quoted, token]) => [key, quoted ?? token],
+          ),
+        );
+        const ha1 = h(algorithm, `Mufasa:${realm}:Circle of Life`);
+        const ha2 = h(algorithm, `${request.method}:${params.uri}`);
+        const expected = h(
+          algorithm,
+          `${ha1}:${nonce}:${params.nc}:${params.cnonce}:auth:${ha2}`,
+        );
+        if (header.startsWith("Digest ") && params.response === expected) {
+          return new Response(JSON.stringify(params));
+        }
+        return new Response(undefined, {
+          status: 401,
+          headers: { "www-authenticate": challenge },
+        });
+      });
+
+    it("should answer the challenge", async () => {
+      const fetch = server(
+        "sha256",
+        `Digest realm="${realm}", qop="auth, auth-int", algorithm=SHA-256, nonce="${nonce}", opaque="${opaque}"`,
+      );
+      const kf = createKnifetch({
+        fetch,
+        auth: {
+          type: "digest",
+          username: "Mufasa",
+          password: "Circle of Life",
+        },
+      });
+
+      const params = await kf("https://example.org/dir/index.html?a=1").json();
+      expect(params).toMatchObject({
+        username: "Mufasa",
+        realm,
+        uri: "/dir/index.html?a=1",
+        algorithm: "SHA-256",
+        qop: "auth",
+        nc: "00000001",
+        opaque,
+      });
+      expect(fetch).toHaveBeenCalledTimes(2);
+
+      // the challenge is reused with the next nonce count
+      const next = await kf("https://example.org/").json();
+      expect(next).toMatchObject({ nc: "00000002" });
+      expect(fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should choose the first challenge with a supported algorithm", async () => {
+      const fetch = server(
+        "md5",
+        `Digest realm="${realm}", qop="auth", algorithm=SHA3, nonce="x", Basic realm="basic", Digest realm="${realm}", qop="auth", nonce="${nonce}"`,
+      );
+      const kf = createKnifetch({
+        fetch,
+        auth: {
+          type: "digest",
+          username: "Mufasa",
+          password: "Circle of Life",
+        },
+      });
+
+      const response = await kf("https://example.org/");
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ algorithm: "MD5" });
+    });
+
+    it("should throw if the algorithm is not supported by the runtime", async () => {
+      vi.doMock("node:crypto", () => {
+        throw new Error("No such built-in module: node:crypto");
+      });
+      const kf = createKnifetch({
+        fetch: server("md5", `Digest realm="${realm}", nonce="${nonce}"`),
+        auth: {
+          type: "digest",
+          username: "Mufasa",
+          password: "Circle of Life",
+        },
+      });
+
+      try {
+        await expect(kf("https://example.org/")).rejects.toThrow(
+          "Digest auth with MD5 needs node:crypto, which is not available in this runtime",
+        );
+      } finally {
+        vi.doUnmock("node:crypto");
+      }
+    });
+  });
+
+  it("should not send credentials to another origin on redirects", async () => {
+    const fetch = vi.fn(async (request: Request) =>
+      request.url === "https://example.net/"
+        ? new Response(undefined, {
+            status: 302,
+            headers: { location: "https://other.net/" },
+          })
+        : new Response("ok"),
+    );
+    const kf = createKnifetch({ fetch, auth: { type: "bearer", token: "t" } });
+
+    await kf("https://example.net/");
+    expect(authorizationOf(fetch)).toEqual(["Bearer t", undefined]);
+  });
+});
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  decorrelatedJitter,
+  equalJitter,
+  exponential,
+  fullJitter,
+} from "../src/backoff";
+import { retry, RetryError } from "../src/retry";
+
+/**
+ * Collect delays of a schedule, feeding back the previous delay
+ */
+const schedule = (
+  delay: (attemptedTimes: number, previousDelay: number) => number,
+  times: number,
+) => {
+  const delays: number[] = [];
+  let previousDelay = 0;
+  for (let i = 1; i <= times; i++) {
+    previousDelay = delay(i, previousDelay);
+    delays.push(previousDelay);
+  }
+  return delays;
+};
+
+describe("backoff", () => {
+  it("exponential", () => {
+    expect(schedule(exponential(), 4)).toEqual([100, 200, 400, 800]);
+    expect(
+      schedule(exponential({ base: 1000, factor: 3, max: 5000 }), 4),
+    ).toEqual([1000, 3000, 5000, 5000]);
+  });
+
+  it("fullJitter", () => {
+    const random = vi.fn(() => 0.5);
+    expect(schedule(fullJitter({ random }), 3)).toEqual([50, 100, 200]);
+    expect(random).toHaveBeenCalledTimes(3);
+  });
+
+  it("equalJitter", () => {
+    expect(schedule(equalJitter({ random: () => 0.5 }), 3)).toEqual([
+      75, 150, 300,
+    ]);
+    expect(schedule(equalJitter({ random: () => 0, max: 300 }), 3)).toEqual([
+      50, 100, 150,
+    ]);
+  });
+
+  it("decorrelatedJitter", () => {
+    expect(
+      schedule(decorrelatedJitter({ random: () => 1, max: 2000 }), 4),
+    ).toEqual([300, 900, 2000, 2000]);
+    expect(schedule(decorrelatedJitter({ random: () => 0 }), 2)).toEqual([
+      100, 100,
+    ]);
+  });
+
+  describe("with retry", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should wait for the backoff delay between attempts", async () => {
+      const mockFn = vi.fn().mockRejectedValue(new Error("fail"));
+      const promise = retry(mockFn, {
+        maxTries: 3,
+        delay: exponential({ base: 1000 }),
+      });
+      const assertion = expect(promise).rejects.toThrowError(
+        new RetryError("MAX_RETRIES_REACHED"),
+      );
+
+      await vi.advanceTimersByTimeAsync(990);
+      expect(mockFn).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(20);
+      expect(mockFn).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1980);
+      expect(mockFn).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(20);
+      expect(mockFn).toHaveBeenCalledTimes(3);
+      await vi.runAllTimersAsync();
+      await assertion;
+    });
+
+    it("should stop when the time budget runs out", async () => {
+      const error = new Error("fail");
+      const mockFn = vi.fn().mockRejectedValue(error);
+      const promise = retry(mockFn, {
+        maxTries: Infinity,
+        maxElapsedTime: 5000,
+        delay: exponential({ base: 1000 }),
+      });
+      const assertion = expect(promise).rejects.toThrowError(
+        new RetryError("MAX_ELAPSED_TIME_REACHED"),
+      );
+
+      // attempts at 0, 1000, 3000, the next one would be at 7000
+      await vi.advanceTimersByTimeAsync(10_000);
+      await assertion;
+      expect(mockFn).toHaveBeenCalledTimes(3);
+      await expect(promise).rejects.toHaveProperty("cause", error);
+    });
+
+    it("should cut the attempt short when the time budget runs out", async () => {
+      const mockFn = vi.fn(() => new Promise(() => {}));
+      const promise = retry(mockFn, { maxElapsedTime: 1000 });
+      const assertion = expect(promise).rejects.toThrowError(
+        new RetryError("MAX_ELAPSED_TIME_REACHED"),
+      );
+
+      await vi.advanceTimersByTimeAsync(1000);
+      await assertion;
+      expect(mockFn).toHaveBeenCalledTimes(1);
+    });
+  });
+});
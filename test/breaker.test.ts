@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CircuitBreaker, CircuitOpenError, createKnifetch } from "../src";
+
+describe("CircuitBreaker", () => {
+  let status = 503;
+  const fetch = vi.fn(async () => new Response(undefined, { status }));
+
+  beforeEach(() => {
+    status = 503;
+    fetch.mockClear();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should open once the failure rate is reached", async () => {
+    const kf = createKnifetch({
+      fetch,
+      circuitBreaker: { minimumRequests: 4, failureThreshold: 0.5 },
+    });
+
+    status = 200;
+    await kf("https://a.example.net/");
+    await kf("https://a.example.net/");
+    status = 503;
+    await kf("https://a.example.net/");
+    await kf("https://a.example.net/");
+
+    const error: CircuitOpenError = await kf("https://a.example.net/").catch(
+      (error) => error,
+    );
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error.key).toBe("https://a.example.net");
+    expect(error.retryAfter).toBe(30_000);
+    expect(fetch).toHaveBeenCalledTimes(4);
+
+    // other origins are not affected
+    await kf("https://b.example.net/");
+    expect(fetch).toHaveBeenCalledTimes(5);
+  });
+
+  it("should let a trial request through after the cooldown", async () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 1, cooldown: 1000 });
+    const kf = createKnifetch({ fetch, circuitBreaker: breaker });
+
+    await kf("https://example.net/");
+    expect(breaker.state("https://example.net")).toBe("open");
+
+    // the trial request fails
+    vi.advanceTimersByTime(1000);
+    expect(breaker.state("https://example.net")).toBe("half-open");
+    await kf("https://example.net/");
+    expect(breaker.state("https://example.net")).toBe("open");
+    await expect(kf("https://example.net/")).rejects.toBeInstanceOf(
+      CircuitOpenError,
+    );
+
+    // the trial request succeeds
+    vi.advanceTimersByTime(1000);
+    status = 200;
+    await kf("https://example.net/");
+    expect(breaker.state("https://example.net")).toBe("closed");
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("should only let one trial request through", async () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 1, cooldown: 1000 });
+    const kf = createKnifetch({ fetch, circuitBreaker: breaker });
+
+    await kf("https://example.net/");
+    vi.advanceTimersByTime(1000);
+    status = 200;
+    const results = await Promise.allSettled([
+      kf("https://example.net/"),
+      kf("https://example.net/"),
+    ]);
+
+    expect(results.map((r) => r.status)).toEqual(["fulfilled", "rejected"]);
+  });
+
+  it("should use the custom key", async () => {
+    const breaker = new CircuitBreaker({
+      minimumRequests: 1,
+      key: (request) => new URL(request.url).pathname,
+    });
+    const kf = createKnifetch({ fetch, circuitBreaker: breaker });
+
+    await kf("https://example.net/a");
+    expect(breaker.state("/a")).toBe("open");
+    expect(breaker.state("/b")).toBe("closed");
+  });
+
+  it("should stop retrying once the circuit is open", async () => {
+    vi.useRealTimers();
+    const kf = createKnifetch({
+      fetch,
+      retry: { maxTries: 5 },
+      circuitBreaker: { minimumRequests: 2 },
+    });
+
+    const response = await kf("https://example.net/");
+    expect(response.status).toBe(503);
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    await expect(
+      kf("https://example.net/", { retry: 5 }),
+    ).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should be shared by extended instances", async () => {
+    const kf = createKnifetch({
+      fetch,
+      circuitBreaker: { minimumRequests: 1 },
+    });
+
+    await kf("https://example.net/");
+    await expect(kf.extend()("https://example.net/")).rejects.toBeInstanceOf(
+      CircuitOpenError,
+    );
+  });
+});
@@ -0,0 +1,214 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createKnifetch, LRUCacheStore, type CachedResponse } from "../src";
+
+describe("cache", () => {
+  let version = 1;
+  const fetch = vi.fn(async (request: Request) => {
+    const url = new URL(request.url);
+    const headers = new Headers(
+      Object.fromEntries(url.searchParams) as Record<string, string>,
+    );
+    headers.set("etag", `"v${version}"`);
+    if (request.headers.get("if-none-match") === `"v${version}"`) {
+      return new Response(undefined, { status: 304, headers });
+    }
+    return new Response(
+      `v${version} ${request.headers.get("accept-language")}`,
+      { headers },
+    );
+  });
+  const text = (response: Response) => response.text();
+
+  beforeEach(() => {
+    version = 1;
+    fetch.mockClear();
+    vi.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should serve fresh responses from the cache", async () => {
+    const kf = createKnifetch({ fetch, cache: true });
+    const url = "https://example.net/?cache-control=max-age=60";
+
+    expect(await kf(url).then(text)).toBe("v1 null");
+    version = 2;
+    vi.advanceTimersByTime(30_000);
+    const response = await kf(url);
+    expect(await response.text()).toBe("v1 null");
+    expect(response.headers.get("age")).toBe("30");
+    expect(response.url).toBe(url);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(30_000);
+    expect(await kf(url).then(text)).toBe("v2 null");
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should revalidate stale responses", async () => {
+    const kf = createKnifetch({ fetch, cache: true });
+    const url = "https://example.net/?cache-control=no-cache";
+
+    expect(await kf(url).then(text)).toBe("v1 null");
+    const response = await kf(url);
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe("v1 null");
+    expect(fetch.mock.calls[1]![0].headers.get("if-none-match")).toBe(`"v1"`);
+
+    version = 2;
+    expect(await kf(url).then(text)).toBe("v2 null");
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not store no-store responses", async () => {
+    const kf = createKnifetch({ fetch, cache: true });
+    const url = "https://example.net/?cache-control=no-store,max-age=60";
+
+    await kf(url);
+    await kf(url);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(fetch.mock.calls[1]![0].headers.has("if-none-match")).toBe(false);
+  });
+
+  it("should match the Vary headers", async () => {
+    const kf = createKnifetch({ fetch, cache: true });
+    const url =
+      "https://example.net/?cache-control=max-age=60&vary=accept-language";
+    const init = (lang: string) => ({ headers: { "accept-language": lang } });
+
+    expect(await kf(url, init("en")).then(text)).toBe("v1 en");
+    expect(await kf(url, init("en")).then(text)).toBe("v1 en");
+    expect(await kf(url, init("fr")).then(text)).toBe("v1 fr");
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should use heuristic freshness only if enabled", async () => {
+    const lastModified = new Date("2025-12-31T00:00:00Z").toUTCString();
+    const url = `https://example.net/?last-modified=${encodeURIComponent(lastModified)}`;
+
+    const kf = createKnifetch({ fetch, cache: true });
+    await kf(url);
+    await kf(url);
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    // fresh for 10% of one day
+    const heuristic = createKnifetch({ fetch, cache: { heuristic: true } });
+    await heuristic(url);
+    vi.advanceTimersByTime(8_000_000);
+    await heuristic(url);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    vi.advanceTimersByTime(1_000_000);
+    await heuristic(url);
+    expect(fetch).toHaveBeenCalledTimes(4);
+  });
+
+  it("should invalidate on unsafe requests", async () => {
+    const kf = createKnifetch({ fetch, cache: true });
+    const url = "https://example.net/?cache-control=max-age=60";
+
+    await kf(url);
+    await kf(url, { method: "POST" });
+    await kf(url);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("should return streamed responses before the body is stored", async () => {
+    let controller!: ReadableStreamDefaultController<Uint8Array>;
+    const body = new ReadableStream<Uint8Array>({
+      start(c) {
+        controller = c;
+      },
+    });
+    const store = new LRUCacheStore();
+    const kf = createKnifetch({
+      fetch: async () => new Response(body, { headers: { etag: '"v1"' } }),
+      cache: { store },
+    });
+    const url = "https://example.net/logs";
+
+    const response = await kf(url);
+    const reader = response.body!.getReader();
+    controller.enqueue(new TextEncoder().encode("line 1\n"));
+    expect(new TextDecoder().decode((await reader.read()).value)).toBe(
+      "line 1\n",
+    );
+    expect(store.get(url)).toBeUndefined();
+
+    controller.close();
+    await reader.read();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(new TextDecoder().decode(store.get(url)?.body)).toBe("line 1\n");
+  });
+
+  it("should not store bodies larger than the max entry size", async () => {
+    const store = new LRUCacheStore();
+    const kf = createKnifetch({ fetch, cache: { store, maxEntrySize: 4 } });
+    const url = "https://example.net/?cache-control=max-age=60";
+
+    expect(await kf(url).then(text)).toBe("v1 null");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(store.get(url)).toBeUndefined();
+  });
+
+  it("should only be shared by extended instances with a store", async () => {
+    const url = "https://example.net/?cache-control=max-age=60";
+
+    const kf = createKnifetch({ fetch, cache: true });
+    await kf(url);
+    await kf.extend({ headers: { "x-child": "1" } })(url);
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    const shared = createKnifetch({
+      fetch,
+      cache: { store: new LRUCacheStore() },
+    });
+    await shared(url);
+    await shared.extend({ headers: { "x-child": "1" } })(url);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not share responses between credentials", async () => {
+    const store = new LRUCacheStore();
+    const api = createKnifetch({ fetch, cache: { store } });
+    const alice = api.extend({ headers: { authorization: "Bearer alice" } });
+    const bob = api.extend({ headers: { authorization: "Bearer bob" } });
+    const url = "https://example.net/me?cache-control=private,max-age=60";
+    const publicURL = "https://example.net/me?cache-control=public,max-age=60";
+
+    // private responses to requests with Authorization are not stored
+    await alice(url);
+    await alice(url);
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    await alice(publicURL);
+    await alice(publicURL);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    await bob(publicURL);
+    expect(fetch).toHaveBeenCalledTimes(4);
+
+    const cookies = api.extend({ headers: { cookie: "user=carol" } });
+    await cookies(url);
+    await cookies(url);
+    expect(fetch).toHaveBeenCalledTimes(5);
+    await api(url);
+    expect(fetch).toHaveBeenCalledTimes(6);
+  });
+});
+
+describe("LRUCacheStore", () => {
+  it("should evict the least recently used response", () => {
+    const store = new LRUCacheStore(2);
+    const value = {} as CachedResponse;
+
+    store.set("a", value);
+    store.set("b", value);
+    store.get("a");
+    store.set("c", value);
+
+    expect(store.get("a")).toBe(value);
+    expect(store.get("b")).toBeUndefined();
+    expect(store.get("c")).toBe(value);
+  });
+});
@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  type Cookie,
+  cookieToString,
+  deleteCookie,
+  getCookies,
+  getSetCookies,
+  parseSetCookie,
+  setCookie,
+} from "../src/cookie";
+
+describe("cookie", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("round trip", () => {
+    const cookies: Cookie[] = [
+      { name: "a", value: "1" },
+      { name: "session", value: "abc=", path: "/", httpOnly: true },
+      {
+        name: "id",
+        value: "x",
+        domain: "example.net",
+        path: "/docs",
+        secure: true,
+        sameSite: "None",
+        priority: "High",
+        maxAge: 3600,
+        expires: new Date("2026-01-01T00:00:00Z"),
+      },
+      {
+        name: "__Host-chip",
+        value: "1",
+        path: "/",
+        secure: true,
+        partitioned: true,
+        sameSite: "Lax",
+      },
+      { name: "x", value: "1", unparsed: ["Foo=bar"] },
+    ];
+
+    it.each(cookies)("should parse the serialized $name", (cookie) => {
+      expect(parseSetCookie(cookieToString({ ...cookie }))).toEqual(cookie);
+    });
+
+    it("should serialize the parsed cookie", () => {
+      const value =
+        "id=x; Secure; HttpOnly; Partitioned; Max-Age=60; Domain=example.net; SameSite=Strict; Priority=Low; Path=/; Expires=Thu, 01 Jan 2026 00:00:00 GMT";
+      expect(cookieToString(parseSetCookie(value)!)).toBe(value);
+    });
+  });
+
+  describe("parseSetCookie", () => {
+    it("should parse SameSite and Priority case-insensitively", () => {
+      expect(parseSetCookie("a=1; samesite=lax; priority=medium")).toEqual({
+        name: "a",
+        value: "1",
+        sameSite: "Lax",
+        priority: "Medium",
+      });
+      expect(parseSetCookie("a=1; SameSite=Loose; Priority=Urgent")).toEqual({
+        name: "a",
+        value: "1",
+      });
+    });
+
+    it("should ignore invalid cookies with a warning", () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      expect(parseSetCookie("__Secure-a=1")).toBeNull();
+      expect(parseSetCookie("__Host-a=1; Secure; Path=/x")).toBeNull();
+      expect(parseSetCookie("a=1; Partitioned")).toBeNull();
+      expect(warn).toHaveBeenCalledTimes(3);
+    });
+
+    it("should throw in strict mode", () => {
+      const warn = vi.spyOn(console, "warn");
+      for (const value of [
+        "__Secure-a=1",
+        "__Host-a=1; Secure; Domain=example.net; Path=/",
+        "a=1; Partitioned",
+        "a=1; SameSite=Loose",
+        "a=1; Priority=Urgent",
+        "a=1; Max-Age=1.5",
+        "a=1; Expires=never",
+      ]) {
+        expect(() => parseSetCookie(value, { strict: true })).toThrow(
+          SyntaxError,
+        );
+      }
+      expect(parseSetCookie("a=1; Secure; Partitioned", { strict: true }))
+        .toMatchInlineSnapshot(`
+        {
+          "name": "a",
+          "partitioned": true,
+          "secure": true,
+          "value": "1",
+        }
+      `);
+      expect(warn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("headers", () => {
+    it("should set and get Set-Cookie headers", () => {
+      const headers = new Headers();
+      setCookie(headers, { name: "a", value: "1", path: "/" });
+      setCookie(headers, { name: "b", value: "2", partitioned: true });
+      deleteCookie(headers, "c", { path: "/" });
+
+      expect(headers.getSetCookie()).toEqual([
+        "a=1; Path=/",
+        "b=2; Secure; Partitioned",
+        "c=; Path=/; Expires=Thu, 01 Jan 1970 00:00:00 GMT",
+      ]);
+      expect(getSetCookies(headers).map((c) => c.name)).toEqual([
+        "a",
+        "b",
+        "c",
+      ]);
+    });
+
+    it("should throw for invalid Set-Cookie headers in strict mode", () => {
+      const headers = new Headers({ "set-cookie": "a=1; SameSite=Loose" });
+      expect(getSetCookies(headers)).toHaveLength(1);
+      expect(() => getSetCookies(headers, { strict: true })).toThrow(
+        SyntaxError,
+      );
+    });
+
+    it("should get the Cookie request header", () => {
+      const headers = new Headers({ cookie: "a=1; b=x=y" });
+      expect(getCookies(headers)).toEqual({ a: "1", b: "x=y" });
+    });
+  });
+});
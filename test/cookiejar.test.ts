@@ -0,0 +1,288 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CookieJar } from "../src";
+import { isSameSite } from "../src/cookiejar";
+
+// conformance with RFC 6265bis, section 5.7 (storage) and 5.8.3 (retrieval)
+describe("CookieJar", () => {
+  let jar: CookieJar;
+  const set = (url: string, ...cookies: string[]) =>
+    jar.setCookie(
+      new Response(undefined, {
+        headers: cookies.map((cookie) => ["set-cookie", cookie]),
+      }),
+      { url },
+    );
+  const get = async (url: string) => (await jar.getCookies(url)).join("; ");
+
+  beforeEach(() => {
+    jar = new CookieJar();
+    vi.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("replacement", () => {
+    it("should replace a cookie with the same name, domain and path", async () => {
+      await set("https://example.net/", "a=1; Path=/");
+      await set("https://example.net/", "a=2; Path=/");
+      await set("https://example.net/", "a=3; Path=/docs");
+
+      expect(await get("https://example.net/docs")).toBe("a=3; a=2");
+      expect(await jar.serialize()).toHaveLength(2);
+    });
+
+    it("should keep the creation time of the replaced cookie", async () => {
+      await set("https://example.net/", "a=1; Path=/");
+      vi.advanceTimersByTime(1000);
+      await set("https://example.net/", "b=1; Path=/");
+      vi.advanceTimersByTime(1000);
+      await set("https://example.net/", "a=2; Path=/");
+
+      expect(await get("https://example.net/")).toBe("a=2; b=1");
+    });
+  });
+
+  describe("Max-Age and Expires", () => {
+    it("should expire cookies after Max-Age", async () => {
+      await set("https://example.net/", "a=1; Max-Age=60");
+      vi.advanceTimersByTime(59_000);
+      expect(await get("https://example.net/")).toBe("a=1");
+      vi.advanceTimersByTime(1000);
+      expect(await get("https://example.net/")).toBe("");
+    });
+
+    it("should prefer Max-Age over Expires", async () => {
+      await set(
+        "https://example.net/",
+        "a=1; Expires=Thu, 01 Jan 2026 00:00:10 GMT; Max-Age=60",
+        "b=1; Max-Age=60; Expires=Wed, 31 Dec 2025 00:00:00 GMT",
+      );
+      vi.advanceTimersByTime(30_000);
+      expect(await get("https://example.net/")).toBe("a=1; b=1");
+    });
+
+    it("should delete cookies with non-positive Max-Age", async () => {
+      await set("https://example.net/", "a=1", "b=1", "c=1");
+      await set("https://example.net/", "a=; Max-Age=0", "b=; Max-Age=-1");
+      expect(await get("https://example.net/")).toBe("c=1");
+    });
+
+    it("should delete cookies with past Expires", async () => {
+      await set("https://example.net/", "a=1");
+      await set(
+        "https://example.net/",
+        "a=; Expires=Thu, 01 Jan 1970 00:00:00 GMT",
+      );
+      expect(await get("https://example.net/")).toBe("");
+    });
+
+    it("should ignore invalid Max-Age and Expires", async () => {
+      await set("https://example.net/", "a=1; Max-Age=soon; Expires=never");
+      vi.advanceTimersByTime(365 * 86_400_000);
+      expect(await get("https://example.net/")).toBe("a=1");
+    });
+  });
+
+  describe("Path", () => {
+    it("should default to the directory of the request path", async () => {
+      await set("https://example.net/a/b/c", "dir=1");
+      await set("https://example.net/top", "top=1");
+      await set("https://example.net/a/b/c", "relative=1; Path=x");
+
+      expect(await get("https://example.net/a/b")).toBe(
+        "dir=1; relative=1; top=1",
+      );
+      expect(await get("https://example.net/a")).toBe("top=1");
+    });
+
+    it("should path-match on segment boundaries", async () => {
+      await set("https://example.net/", "a=1; Path=/foo");
+      expect(await get("https://example.net/foo")).toBe("a=1");
+      expect(await get("https://example.net/foo/bar")).toBe("a=1");
+      expect(await get("https://example.net/foobar")).toBe("");
+    });
+
+    it("should list cookies with longer paths first", async () => {
+      await set("https://example.net/", "a=1; Path=/");
+      await set("https://example.net/", "b=1; Path=/x/y");
+      await set("https://example.net/", "c=1; Path=/x");
+      await set("https://example.net/", "d=1; Path=/x");
+
+      expect(await get("https://example.net/x/y/z")).toBe("b=1; c=1; d=1; a=1");
+    });
+  });
+
+  describe("Domain", () => {
+    it("should only send host-only cookies to the same host", async () => {
+      await set("https://example.net/", "host=1");
+      await set("https://example.net/", "domain=1; Domain=.Example.net");
+
+      expect(await get("https://example.net/")).toBe("host=1; domain=1");
+      expect(await get("https://www.example.net/")).toBe("domain=1");
+      expect(await get("https://notexample.net/")).toBe("");
+    });
+
+    it("should reject domains which do not domain-match the host", async () => {
+      await set("https://www.example.net/", "a=1; Domain=other.net");
+      await set("https://example.net/", "b=1; Domain=www.example.net");
+
+      expect(await jar.serialize()).toEqual([]);
+    });
+
+    it("should reject public suffixes", async () => {
+      await set("https://example.com/", "a=1; Domain=com");
+      await set("https://example.co.uk/", "b=1; Domain=co.uk");
+      await set("https://a.github.io/", "c=1; Domain=github.io");
+      await set("https://www.example.co.uk/", "d=1; Domain=example.co.uk");
+
+      expect(await get("https://example.co.uk/")).toBe("d=1");
+      expect(await jar.serialize()).toHaveLength(1);
+    });
+
+    it("should treat a public suffix of the host itself as host-only", async () => {
+      await set("https://github.io/", "a=1; Domain=github.io");
+
+      expect(await get("https://github.io/")).toBe("a=1");
+      expect(await get("https://a.github.io/")).toBe("");
+    });
+
+    it("should use the custom public suffix check", async () => {
+      jar = new CookieJar({
+        isPublicSuffix: (domain) => domain === "example.net",
+      });
+      await set("https://a.example.net/", "a=1; Domain=example.net");
+      expect(await jar.serialize()).toEqual([]);
+    });
+
+    it("should not domain-match IP addresses", async () => {
+      await set("http://127.0.0.1/", "a=1; Domain=0.0.1");
+      await set("http://127.0.0.1/", "b=1; Domain=127.0.0.1");
+
+      expect(await get("http://127.0.0.1/")).toBe("b=1");
+    });
+  });
+
+  describe("Secure", () => {
+    it("should only set and send secure cookies over https", async () => {
+      await set("http://example.net/", "a=1; Secure");
+      expect(await jar.serialize()).toEqual([]);
+
+      await set("https://example.net/", "b=1; Secure", "c=1");
+      expect(await get("https://example.net/")).toBe("b=1; c=1");
+      expect(await get("http://example.net/")).toBe("c=1");
+    });
+
+    it("should trust localhost", async () => {
+      await set("http://localhost:3000/", "a=1; Secure");
+      expect(await get("http://localhost:3000/")).toBe("a=1");
+    });
+
+    it("should not overwrite secure cookies from insecure origins", async () => {
+      await set("https://example.net/", "a=1; Secure; Path=/");
+      await set("http://example.net/", "a=2; Path=/");
+      await set("http://example.net/", "a=3; Path=/docs");
+      await set("http://www.example.net/", "a=4; Domain=example.net");
+
+      expect(await get("https://example.net/docs")).toBe("a=1");
+    });
+
+    it("should reject SameSite=None without Secure", async () => {
+      await set(
+        "https://example.net/",
+        "a=1; SameSite=None",
+        "b=1; SameSite=none; Secure",
+      );
+      expect(await get("https://example.net/")).toBe("b=1");
+    });
+  });
+
+  describe("management", () => {
+    it("should get structured cookies for a url", async () => {
+      await jar.setCookieString(
+        "a=1; Path=/docs; HttpOnly",
+        "https://example.net/",
+      );
+      await jar.setCookieString("b=2", "https://example.net/");
+
+      const cookies = await jar.getCookieObjects("https://example.net/docs");
+      expect(cookies.map((c) => c.name)).toEqual(["a", "b"]);
+      expect(cookies[0]).toMatchObject({
+        value: "1",
+        domain: "example.net",
+        path: "/docs",
+        httpOnly: true,
+        hostOnly: true,
+      });
+    });
+
+    it("should list cookies of a domain and its subdomains", async () => {
+      await set("https://example.net/", "a=1");
+      await set("https://www.example.net/", "b=1");
+      await set("https://example.org/", "c=1");
+
+      const names = (cookies: { name: string }[]) => cookies.map((c) => c.name);
+      expect(names(await jar.listCookies("example.net"))).toEqual(["a", "b"]);
+      expect(names(await jar.listCookies("www.example.net"))).toEqual(["b"]);
+      expect(names(await jar.listCookies())).toEqual(["a", "b", "c"]);
+    });
+
+    it("should remove cookies by filter", async () => {
+      await set("https://example.net/", "a=1; Path=/", "a=2; Path=/x", "b=1");
+      await set("https://example.org/", "a=3");
+
+      await expect(jar.removeCookies({})).rejects.toBeInstanceOf(TypeError);
+      expect(await jar.removeCookies({ name: "a", path: "/x" })).toBe(1);
+      expect(await jar.removeCookies({ domain: "example.net" })).toBe(2);
+      expect(await get("https://example.org/")).toBe("a=3");
+      expect(await jar.removeAllCookies()).toBe(1);
+      expect(await jar.serialize()).toEqual([]);
+    });
+
+    it("should remove cookies by predicate and session cookies", async () => {
+      await set("https://example.net/", "a=1", "b=1; Max-Age=60", "c=1");
+
+      expect(await jar.deleteCookies((c) => c.name === "c")).toBe(1);
+      expect(await jar.clearSessionCookies()).toBe(1);
+      expect(await get("https://example.net/")).toBe("b=1");
+    });
+
+    it("should emit change events", async () => {
+      const events: string[] = [];
+      const off = jar.onChange(({ type, cookie }) =>
+        events.push(`${type} ${cookie.name}=${cookie.value}`),
+      );
+
+      await set("https://example.net/", "a=1", "b=1; Max-Age=1", "c=1");
+      await set("https://example.net/", "a=2", "c=; Max-Age=0");
+      vi.advanceTimersByTime(1000);
+      await jar.removeCookies({ name: "a" });
+      off();
+      await set("https://example.net/", "d=1");
+
+      expect(events).toEqual([
+        "added a=1",
+        "added b=1",
+        "added c=1",
+        "updated a=2",
+        "expired c=1",
+        "expired b=1",
+        "removed a=2",
+      ]);
+    });
+  });
+
+  it("should check same-site with public suffixes", () => {
+    expect(isSameSite("https://a.example.net", "https://b.example.net")).toBe(
+      true,
+    );
+    expect(
+      isSameSite("https://a.example.co.uk", "https://b.example.co.uk"),
+    ).toBe(true);
+    expect(isSameSite("https://a.co.uk", "https://b.co.uk")).toBe(false);
+    expect(isSameSite("https://a.github.io", "https://b.github.io")).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,156 @@
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CookieJar, FileCookieStore, parseNetscape } from "../src";
+
+const response = (...cookies: string[]) =>
+  new Response(undefined, {
+    headers: cookies.map((cookie) => ["set-cookie", cookie]),
+  });
+
+describe("cookie stores", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should keep expiry after a JSON round trip", async () => {
+    const jar = new CookieJar();
+    await jar.setCookie(
+      response(
+        "a=1; Path=/; Expires=Thu, 01 Jan 2026 01:00:00 GMT",
+        "b=2; Path=/; Max-Age=60",
+        "c=3; Path=/",
+      ),
+      { url: "https://example.net/" },
+    );
+
+    const json = JSON.stringify(jar);
+    expect(json).toBe(JSON.stringify(await jar.serialize()));
+    const restored = CookieJar.fromCookies(JSON.parse(json));
+    expect(await restored.getCookies("https://example.net/")).toEqual([
+      "a=1",
+      "b=2",
+      "c=3",
+    ]);
+    expect(await restored.serialize()).toEqual(await jar.serialize());
+
+    // Max-Age is relative to the time the cookie is received
+    vi.advanceTimersByTime(60_000);
+    expect(await restored.getCookies("https://example.net/")).toEqual([
+      "a=1",
+      "c=3",
+    ]);
+  });
+
+  it("should replace cookies with the same identity", async () => {
+    const jar = new CookieJar();
+    await jar.setCookie(response("a=1; Path=/"), {
+      url: "https://example.net/",
+    });
+    await jar.setCookie(response("a=2; Path=/"), {
+      url: "https://example.net/",
+    });
+    expect(await jar.getCookies("https://example.net/")).toEqual(["a=2"]);
+
+    await jar.setCookie(response("a=; Path=/; Max-Age=0"), {
+      url: "https://example.net/",
+    });
+    expect(await jar.getCookies("https://example.net/")).toEqual([]);
+  });
+
+  describe("FileCookieStore", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      vi.useRealTimers();
+      dir = await mkdtemp(join(tmpdir(), "knifetch-"));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should persist cookies to the file", async () => {
+      const path = join(dir, "cookies.json");
+      const jar = new CookieJar({ store: new FileCookieStore(path) });
+      await jar.setCookie(
+        response("a=1; Path=/; Max-Age=3600", "b=2; Path=/"),
+        { url: "https://example.net/" },
+      );
+
+      const stored = JSON.parse(await readFile(path, "utf8"));
+      expect(stored).toHaveLength(2);
+      expect(typeof stored[0].expires).toBe("number");
+      // no temporary file is left
+      expect(await readdir(dir)).toEqual(["cookies.json"]);
+
+      expect(() => JSON.stringify(jar)).toThrow(TypeError);
+      const reloaded = new CookieJar({ store: new FileCookieStore(path) });
+      expect(await reloaded.getCookies("https://example.net/")).toEqual([
+        "a=1",
+        "b=2",
+      ]);
+      await reloaded.removeAllCookies();
+      expect(JSON.parse(await readFile(path, "utf8"))).toEqual([]);
+    });
+
+    it("should start empty without the file", async () => {
+      const store = new FileCookieStore(join(dir, "missing.json"));
+      expect(await store.getCookies()).toEqual([]);
+    });
+  });
+
+  describe("Netscape cookies.txt", () => {
+    const text = [
+      "# Netscape HTTP Cookie File",
+      "# comment",
+      "",
+      ".example.net\tTRUE\t/\tTRUE\t1798761600\tsession\tabc",
+      "#HttpOnly_.example.net\tTRUE\t/api\tFALSE\t0\ttoken\tx\ty",
+      "invalid line",
+    ].join("\n");
+
+    it("should parse cookies", () => {
+      expect(parseNetscape(text)).toEqual([
+        {
+          name: "session",
+          value: "abc",
+          domain: "example.net",
+          path: "/",
+          secure: true,
+          expires: new Date(1_798_761_600_000),
+        },
+        {
+          name: "token",
+          value: "x\ty",
+          domain: "example.net",
+          path: "/api",
+          httpOnly: true,
+        },
+      ]);
+    });
+
+    it("should import and export cookies", async () => {
+      const jar = new CookieJar();
+      await jar.importNetscape(text);
+
+      expect(await jar.getCookies("https://example.net/api")).toEqual([
+        "token=x\ty",
+        "session=abc",
+      ]);
+      const exported = await jar.exportNetscape();
+      expect(exported).toContain(
+        ".example.net\tTRUE\t/\tTRUE\t1798761600\tsession\tabc",
+      );
+      expect(exported).toContain(
+        "#HttpOnly_.example.net\tTRUE\t/api\tFALSE\t0\ttoken\tx\ty",
+      );
+      expect(parseNetscape(exported)).toEqual(parseNetscape(text));
+    });
+  });
+});
@@ -0,0 +1,640 @@
+import { getEventListeners } from "node:events";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  BodyReplayError,
+  createKnifetch,
+  HttpError,
+  type KRequestInit,
+  RetryError,
+  TimeoutError,
+} from "../src";
+import { CookieJar } from "../src/cookiejar";
+
+describe("createKnifetch", () => {
+  describe("cookieJar", () => {
+    it("should capture cookies from every hop of a redirect chain", async () => {
+      const cookieJar = new CookieJar();
+      const fetch = vi.fn(async (request: Request) => {
+        const { pathname } = new URL(request.url);
+        if (pathname === "/login") {
+          return new Response(undefined, {
+            status: 302,
+            headers: {
+              location: "/home",
+              "set-cookie": "session=abc; Path=/",
+            },
+          });
+        }
+        return Response.json({ cookie: request.headers.get("cookie") });
+      });
+      const kf = createKnifetch({ fetch, cookieJar });
+
+      const response = await kf("https://example.net/login", {
+        json: { user: "knifetch" },
+      });
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      const redirected = fetch.mock.calls[1]![0];
+      expect(redirected.url).toBe("https://example.net/home");
+      // 302 for POST is turned into GET without body
+      expect(redirected.method).toBe("GET");
+      expect(redirected.headers.has("content-type")).toBe(false);
+      expect(await response.json()).toEqual({ cookie: "session=abc" });
+      expect(await cookieJar.getCookies("https://example.net/")).toEqual([
+        "session=abc",
+      ]);
+    });
+
+    it("should replay the body for 307 redirects", async () => {
+      const fetch = vi.fn(async (request: Request) => {
+        if (request.url.endsWith("/old")) {
+          return new Response(undefined, {
+            status: 307,
+            headers: { location: "/new" },
+          });
+        }
+        return new Response(await request.text());
+      });
+      const kf = createKnifetch({ fetch, cookieJar: true });
+
+      const response = await kf("https://example.net/old", {
+        json: { hello: "world" },
+      });
+
+      expect(await response.text()).toBe(`{"hello":"world"}`);
+      expect(fetch.mock.calls[1]![0].method).toBe("POST");
+    });
+
+    it("should not send SameSite=Strict cookies on cross-site hops", async () => {
+      const cookieJar = new CookieJar();
+      const fetch = vi.fn(async (request: Request) => {
+        if (request.url === "https://a.example.net/") {
+          return new Response(undefined, {
+            status: 302,
+            headers: { location: "https://b.example.org/" },
+          });
+        }
+        if (request.url === "https://b.example.org/") {
+          return new Response(undefined, {
+            status: 302,
+            headers: {
+              location: "https://b.example.org/next",
+              "set-cookie": "strict=1; SameSite=Strict",
+            },
+          });
+        }
+        return new Response(request.headers.get("cookie"));
+      });
+      await cookieJar.setCookie(
+        new Response(undefined, {
+          headers: [
+            ["set-cookie", "strict=1; Path=/; SameSite=Strict"],
+            ["set-cookie", "lax=1; Path=/; SameSite=Lax"],
+            ["set-cookie", "none=1; Path=/; SameSite=None; Secure"],
+          ],
+        }),
+        { url: "https://b.example.org/" },
+      );
+      const kf = createKnifetch({ fetch, cookieJar });
+
+      const response = await kf("https://a.example.net/");
+
+      expect(await response.text()).toBe("lax=1; none=1");
+      expect(await cookieJar.getCookies("https://b.example.org/")).toHaveLength(
+        3,
+      );
+    });
+
+    it("should respect redirect: manual", async () => {
+      const cookieJar = new CookieJar();
+      const fetch = vi.fn(
+        async () =>
+          new Response(undefined, {
+            status: 302,
+            headers: { location: "/home", "set-cookie": "session=abc" },
+          }),
+      );
+      const kf = createKnifetch({ fetch, cookieJar });
+
+      const response = await kf("https://example.net/login", {
+        redirect: "manual",
+      });
+
+      expect(response.status).toBe(302);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(await cookieJar.getCookies("https://example.net/login")).toEqual([
+        "session=abc",
+      ]);
+    });
+  });
+
+  describe("throwHttpErrors", () => {
+    const fetch = vi.fn(async (request: Request) => {
+      const status = Number(new URL(request.url).searchParams.get("status"));
+      return Response.json(
+        { title: "Not Found", detail: "x".repeat(10_000) },
+        {
+          status,
+          headers: { "content-type": "application/problem+json" },
+        },
+      );
+    });
+
+    it("should not throw by default", async () => {
+      const kf = createKnifetch({ fetch });
+      const response = await kf("https://example.net/", {
+        query: { status: 500 },
+      });
+      expect(response.status).toBe(500);
+    });
+
+    it("should throw HttpError with request and body snippet", async () => {
+      const onResponse = vi.fn();
+      const transformResponse = vi.fn();
+      const kf = createKnifetch({
+        fetch,
+        throwHttpErrors: true,
+        onResponse,
+        transformResponse,
+      });
+
+      const error: HttpError = await kf("https://example.net/", {
+        query: { status: 500 },
+      }).catch((error) => error);
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.message).toBe(
+        "Request failed with status code 500: https://example.net/?status=500",
+      );
+      expect(error.request?.url).toBe("https://example.net/?status=500");
+      expect(error.body).toHaveLength(4096);
+      // the body is truncated so it cannot be parsed
+      expect(error.problem).toBeUndefined();
+      // the response body is left unused
+      expect(error.response.bodyUsed).toBe(false);
+      expect(onResponse).toHaveBeenCalledTimes(1);
+      expect(transformResponse).not.toHaveBeenCalled();
+    });
+
+    it("should parse problem details", async () => {
+      const kf = createKnifetch({
+        fetch: async () =>
+          Response.json({ title: "Not Found" }, { status: 404 }),
+        throwHttpErrors: true,
+      });
+      const error: HttpError = await kf("https://example.net/").catch(
+        (error) => error,
+      );
+      expect(error.problem).toEqual({ title: "Not Found" });
+    });
+
+    it("should accept a status predicate per request", async () => {
+      const kf = createKnifetch({ fetch, throwHttpErrors: true });
+      const response = await kf("https://example.net/", {
+        query: { status: 404 },
+        throwHttpErrors: (status) => status >= 400 && status !== 404,
+      });
+      expect(response.status).toBe(404);
+      await expect(
+        kf("https://example.net/", { query: { status: 403 } }),
+      ).rejects.toBeInstanceOf(HttpError);
+    });
+  });
+
+  describe("retry", () => {
+    it("should retry on retryable status codes", async () => {
+      const fetch = vi
+        .fn()
+        .mockResolvedValueOnce(new Response("busy", { status: 503 }))
+        .mockResolvedValueOnce(new Response("ok"));
+      const kf = createKnifetch({ fetch });
+
+      const response = await kf("https://example.net/", { retry: 3 });
+
+      expect(await response.text()).toBe("ok");
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should return the last response when retries are exhausted", async () => {
+      const fetch = vi.fn(async () => new Response("busy", { status: 503 }));
+      const kf = createKnifetch({ fetch, throwHttpErrors: true });
+
+      const error: HttpError = await kf("https://example.net/", {
+        retry: 2,
+      }).catch((error) => error);
+
+      expect(error).toBeInstanceOf(HttpError);
+      expect(error.body).toBe("busy");
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should retry network errors for idempotent methods only", async () => {
+      const fetch = vi.fn(async () => {
+        throw new TypeError("fetch failed");
+      });
+      const kf = createKnifetch({ fetch });
+
+      await expect(
+        kf("https://example.net/", { retry: 3 }),
+      ).rejects.toThrowError(new TypeError("fetch failed"));
+      expect(fetch).toHaveBeenCalledTimes(3);
+
+      fetch.mockClear();
+      await expect(
+        kf("https://example.net/", { method: "POST", retry: 3 }),
+      ).rejects.toThrowError(new TypeError("fetch failed"));
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not retry errors thrown by interceptors", async () => {
+      const fetch = vi.fn();
+      const onRequest = vi.fn(() => {
+        throw new Error("bug");
+      });
+      const kf = createKnifetch({ fetch, onRequest });
+
+      await expect(
+        kf("https://example.net/", { retry: 3 }),
+      ).rejects.toThrowError(new Error("bug"));
+      expect(onRequest).toHaveBeenCalledTimes(1);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it("should accept a shouldRetry hook", async () => {
+      const fetch = vi
+        .fn()
+        .mockResolvedValueOnce(new Response(undefined, { status: 500 }))
+        .mockResolvedValueOnce(new Response(undefined, { status: 404 }));
+      const shouldRetry = vi.fn(() => true);
+      const kf = createKnifetch({ fetch });
+
+      const response = await kf("https://example.net/", {
+        method: "POST",
+        retry: { maxTries: 3, shouldRetry },
+      });
+
+      expect(response.status).toBe(404);
+      expect(shouldRetry).toHaveBeenCalledTimes(1);
+      expect(shouldRetry).toHaveBeenCalledWith({
+        request: expect.any(Request),
+        response: expect.any(Response),
+        error: undefined,
+        attempt: 1,
+      });
+    });
+
+    it("should send a fresh request with its own signal per attempt", async () => {
+      const fetch = vi.fn(
+        (request: Request) =>
+          new Promise<Response>((_, reject) => {
+            request.signal.addEventListener("abort", () =>
+              reject(request.signal.reason),
+            );
+          }),
+      );
+      const kf = createKnifetch({ fetch });
+
+      const error: TimeoutError = await kf("https://example.net/", {
+        retry: { maxTries: 2, timeout: 50 },
+      }).catch((error) => error);
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error.scope).toBe("attempt");
+      expect(error.request.url).toBe("https://example.net/");
+      expect(error.cause).toStrictEqual(
+        new RetryError("ATTEMPT_TIMEOUT_REACHED"),
+      );
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      const [[first], [second]] = fetch.mock.calls;
+      expect(first).not.toBe(second);
+      expect(first!.signal.aborted).toBe(true);
+      expect(second!.signal.aborted).toBe(true);
+    });
+
+    it("should replay the request body for each attempt", async () => {
+      const bodies: Array<Record<string, unknown>> = [];
+      const fetch = vi.fn(async (request: Request) => {
+        // the body matches the multipart boundary of the content type
+        bodies.push(Object.fromEntries(await request.formData()));
+        return new Response(undefined, {
+          status: bodies.length < 3 ? 503 : 200,
+        });
+      });
+      const onRequest = vi.fn();
+      const kf = createKnifetch({ fetch, onRequest });
+
+      const response = await kf("https://example.net/", {
+        method: "PUT",
+        formData: { hello: "world" },
+        retry: 3,
+      });
+
+      expect(response.status).toBe(200);
+      expect(bodies).toEqual([
+        { hello: "world" },
+        { hello: "world" },
+        { hello: "world" },
+      ]);
+      const requests = onRequest.mock.calls.map(([{ request }]) => request);
+      expect(new Set(requests).size).toBe(3);
+    });
+
+    it("should not buffer bodies which are not retried or can be sent again", async () => {
+      const sizes: number[] = [];
+      const statuses = [503, 503, 200];
+      const fetch = vi.fn(async (request: Request) => {
+        sizes.push((await request.arrayBuffer()).byteLength);
+        return new Response(undefined, { status: statuses.shift() });
+      });
+      const kf = createKnifetch({ fetch, retry: 3 });
+      const body = new Uint8Array(11 * 1024 * 1024);
+
+      // POST is not retried by default
+      const post = await kf("https://example.net/", { method: "POST", body });
+      expect(post.status).toBe(503);
+      expect(sizes).toEqual([body.byteLength]);
+
+      const put = await kf("https://example.net/", { method: "PUT", body });
+      expect(put.status).toBe(200);
+      expect(sizes).toEqual([
+        body.byteLength,
+        body.byteLength,
+        body.byteLength,
+      ]);
+    });
+
+    it("should throw BodyReplayError for bodies larger than maxBodySize", async () => {
+      const fetch = vi.fn();
+      const kf = createKnifetch({ fetch });
+      const stream = new ReadableStream({
+        pull(controller) {
+          controller.enqueue(new Uint8Array(1024));
+        },
+      });
+
+      await expect(
+        kf("https://example.net/", {
+          method: "PUT",
+          body: stream,
+          duplex: "half",
+          retry: { maxBodySize: 4096 },
+        } as KRequestInit),
+      ).rejects.toBeInstanceOf(BodyReplayError);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    describe("Retry-After", () => {
+      beforeEach(() => {
+        vi.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") });
+      });
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it("should wait for Retry-After before the next attempt", async () => {
+        const fetch = vi
+          .fn()
+          .mockResolvedValueOnce(
+            new Response(undefined, {
+              status: 429,
+              headers: { "retry-after": "2" },
+            }),
+          )
+          .mockResolvedValueOnce(
+            new Response(undefined, {
+              status: 503,
+              headers: {
+                // 5 seconds after the second attempt
+                "retry-after": new Date(Date.now() + 7000).toUTCString(),
+              },
+            }),
+          )
+          .mockResolvedValueOnce(
+            new Response(undefined, {
+              status: 503,
+              headers: { "ratelimit-reset": "1" },
+            }),
+          )
+          .mockResolvedValueOnce(new Response("ok"));
+        const kf = createKnifetch({ fetch });
+
+        const promise = kf("https://example.net/", {
+          retry: { maxTries: 4, delay: 100_000 },
+        });
+
+        await vi.advanceTimersByTimeAsync(1990);
+        expect(fetch).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(20);
+        expect(fetch).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(4980);
+        expect(fetch).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(20);
+        expect(fetch).toHaveBeenCalledTimes(3);
+        await vi.advanceTimersByTimeAsync(980);
+        expect(fetch).toHaveBeenCalledTimes(3);
+        await vi.advanceTimersByTimeAsync(20);
+        expect(fetch).toHaveBeenCalledTimes(4);
+        expect(await (await promise).text()).toBe("ok");
+      });
+
+      it("should not retry if Retry-After exceeds maxRetryAfter", async () => {
+        const fetch = vi.fn(
+          async () =>
+            new Response(undefined, {
+              status: 503,
+              headers: { "retry-after": "3600" },
+            }),
+        );
+        const kf = createKnifetch({ fetch });
+
+        const response = await kf("https://example.net/", {
+          retry: { maxRetryAfter: 10_000 },
+        });
+
+        expect(response.status).toBe(503);
+        expect(fetch).toHaveBeenCalledTimes(1);
+      });
+
+      it("should cut the wait short on abort", async () => {
+        const fetch = vi.fn(
+          async () =>
+            new Response(undefined, {
+              status: 503,
+              headers: { "retry-after": "30" },
+            }),
+        );
+        const kf = createKnifetch({ fetch });
+        const controller = new AbortController();
+
+        const promise = kf("https://example.net/", {
+          retry: true,
+          signal: controller.signal,
+        });
+        await vi.advanceTimersByTimeAsync(1000);
+        controller.abort();
+
+        await expect(promise).rejects.toThrowError(
+          new RetryError("RETRY_IS_ABORTED"),
+        );
+        await vi.advanceTimersByTimeAsync(60_000);
+        expect(fetch).toHaveBeenCalledTimes(1);
+      });
+    });
+  });
+
+  describe("extend", () => {
+    const echo = vi.fn(async (request: Request) =>
+      Response.json({
+        url: request.url,
+        headers: Object.fromEntries(request.headers),
+      }),
+    );
+
+    it("should merge defaults of the parent", async () => {
+      const calls: string[] = [];
+      const parent = createKnifetch({
+        fetch: echo,
+        baseURL: "https://example.net/api",
+        headers: { "X-Client": "knifetch", Accept: "text/plain" },
+        query: { lang: "en", page: 1 },
+        onRequest: () => void calls.push("parent"),
+      });
+      const child = parent.extend({
+        baseURL: "v2/",
+        headers: { accept: "application/json", authorization: "Bearer t" },
+        query: { page: 2 },
+        onRequest: () => void calls.push("child"),
+      });
+
+      const response = await child("users", {
+        headers: { authorization: "Bearer override" },
+        query: { lang: undefined },
+      });
+
+      expect(await response.json()).toEqual({
+        url: "https://example.net/api/v2/users?page=2",
+        headers: {
+          accept: "application/json",
+          authorization: "Bearer override",
+          "x-client": "knifetch",
+        },
+      });
+      expect(calls).toEqual(["parent", "child"]);
+    });
+
+    it("should share the cookie jar and merge retry options", async () => {
+      const fetch = vi.fn(async () => new Response(undefined, { status: 503 }));
+      const cookieJar = new CookieJar();
+      const parent = createKnifetch({
+        fetch,
+        cookieJar,
+        retry: { maxTries: 2 },
+      });
+      const child = parent.extend({ retry: { delay: 1 } });
+
+      await child("https://example.net/");
+      expect(fetch).toHaveBeenCalledTimes(2);
+
+      fetch.mockClear();
+      await child("https://example.net/", { retry: false });
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should create a fresh instance", async () => {
+      const parent = createKnifetch({
+        fetch: echo,
+        headers: { "x-client": "knifetch" },
+      });
+      const fresh = parent.create({ fetch: echo });
+      const response = await fresh("https://example.net/");
+      expect((await response.json()).headers).toEqual({});
+    });
+  });
+
+  describe("timeout", () => {
+    const fetch = vi.fn(
+      (request: Request) =>
+        new Promise<Response>((_, reject) => {
+          request.signal.addEventListener("abort", () =>
+            reject(request.signal.reason),
+          );
+        }),
+    );
+
+    it("should throw TimeoutError", async () => {
+      vi.useFakeTimers();
+      const kf = createKnifetch({ fetch, timeout: 50 });
+
+      const promise = kf("https://example.net/").catch((error) => error);
+      await vi.advanceTimersByTimeAsync(50);
+      const error: TimeoutError = await promise;
+      vi.useRealTimers();
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error.scope).toBe("request");
+      expect(error.request.url).toBe("https://example.net/");
+      expect(error.elapsed).toBe(50);
+      expect(fetch.mock.calls[0]![0].signal.aborted).toBe(true);
+    });
+
+    it("should apply to the entire request when retrying", async () => {
+      fetch.mockClear();
+      const kf = createKnifetch({ fetch });
+
+      await expect(
+        kf("https://example.net/", {
+          timeout: 120,
+          retry: { timeout: 50, maxTries: 5 },
+        }),
+      ).rejects.toBeInstanceOf(TimeoutError);
+      expect(fetch.mock.calls.length).toBeGreaterThanOrEqual(2);
+      expect(fetch.mock.calls.length).toBeLessThan(5);
+    });
+
+    it("should keep the abort reason of the user signal", async () => {
+      const kf = createKnifetch({ fetch, timeout: 1000 });
+      const controller = new AbortController();
+      const reason = new Error("cancelled");
+
+      const promise = kf("https://example.net/", {
+        signal: controller.signal,
+      });
+      setTimeout(() => controller.abort(reason), 10);
+
+      await expect(promise).rejects.toBe(reason);
+    });
+
+    it("should not leak listeners on a shared signal", async () => {
+      const kf = createKnifetch({
+        fetch: async () => new Response("ok"),
+        timeout: 1000,
+      });
+      const controller = new AbortController();
+      const any = AbortSignal.any;
+
+      for (const supported of [true, false]) {
+        if (!supported) {
+          // @ts-expect-error an older runtime
+          AbortSignal.any = undefined;
+        }
+        try {
+          for (let i = 0; i < 20; i++) {
+            await kf("https://example.net/", { signal: controller.signal });
+          }
+        } finally {
+          AbortSignal.any = any;
+        }
+        expect(getEventListeners(controller.signal, "abort")).toHaveLength(0);
+      }
+    });
+
+    it("should be disabled per request", async () => {
+      const kf = createKnifetch({
+        fetch: async () => new Response("ok"),
+        timeout: 1000,
+      });
+      const response = await kf("https://example.net/", { timeout: false });
+      expect(await response.text()).toBe("ok");
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it, vi } from "vitest";
+import { createKnifetch } from "../src";
+
+describe("dedupe", () => {
+  const createFetch = () => {
+    const aborted = vi.fn();
+    const fetch = vi.fn(
+      (request: Request) =>
+        new Promise<Response>((resolve, reject) => {
+          request.signal.addEventListener("abort", () => {
+            aborted();
+            reject(request.signal.reason);
+          });
+          setTimeout(() => resolve(new Response(request.url)), 20);
+        }),
+    );
+    return { fetch, aborted };
+  };
+
+  it("should share one fetch among identical requests", async () => {
+    const { fetch } = createFetch();
+    const kf = createKnifetch({ fetch, dedupe: true });
+
+    const responses = await Promise.all([
+      kf("https://example.net/a"),
+      kf("https://example.net/a"),
+      kf("https://example.net/a"),
+      kf("https://example.net/b"),
+      kf("https://example.net/a", { headers: { accept: "text/plain" } }),
+      kf("https://example.net/a", { dedupe: false }),
+    ]);
+
+    expect(fetch).toHaveBeenCalledTimes(4);
+    // each caller can read its own response
+    const texts = await Promise.all(responses.map((r) => r.text()));
+    expect(new Set(texts.slice(0, 3))).toEqual(
+      new Set(["https://example.net/a"]),
+    );
+
+    // settled requests are not shared
+    await kf("https://example.net/a");
+    expect(fetch).toHaveBeenCalledTimes(5);
+  });
+
+  it("should share requests with extended instances", async () => {
+    const { fetch } = createFetch();
+    const kf = createKnifetch({ fetch, dedupe: true });
+    const child = kf.extend({ timeout: 1000 });
+
+    await Promise.all([
+      kf("https://example.net/a"),
+      child("https://example.net/a"),
+    ]);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not share requests with different cookies", async () => {
+    const { fetch } = createFetch();
+    const kf = createKnifetch({ fetch, dedupe: true });
+
+    await Promise.all([
+      kf("https://example.net/", { headers: { cookie: "a=1" } }),
+      kf("https://example.net/", { headers: { cookie: "a=2" } }),
+      kf("https://example.net/", { method: "POST" }),
+      kf("https://example.net/", { method: "POST" }),
+    ]);
+
+    expect(fetch).toHaveBeenCalledTimes(4);
+  });
+
+  it("should only abort the shared fetch if every caller aborted", async () => {
+    const { fetch, aborted } = createFetch();
+    const kf = createKnifetch({ fetch, dedupe: true });
+    const a = new AbortController();
+    const b = new AbortController();
+
+    const promiseA = kf("https://example.net/", { signal: a.signal });
+    const promiseB = kf("https://example.net/", { signal: b.signal });
+    const promiseC = kf("https://example.net/");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    a.abort(new Error("a"));
+
+    await expect(promiseA).rejects.toThrow("a");
+    expect(aborted).not.toHaveBeenCalled();
+    expect(await (await promiseC).text()).toBe("https://example.net/");
+    expect(await (await promiseB).text()).toBe("https://example.net/");
+  });
+
+  it("should abort the shared fetch once every caller aborted", async () => {
+    const { fetch, aborted } = createFetch();
+    const kf = createKnifetch({ fetch, dedupe: true });
+    const a = new AbortController();
+    const b = new AbortController();
+
+    const promiseA = kf("https://example.net/", { signal: a.signal });
+    const promiseB = kf("https://example.net/", { signal: b.signal });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    a.abort(new Error("a"));
+    b.abort(new Error("b"));
+
+    await expect(promiseA).rejects.toThrow("a");
+    await expect(promiseB).rejects.toThrow("b");
+    expect(aborted).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
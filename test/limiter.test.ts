@@ -0,0 +1,158 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createKnifetch } from "../src";
+
+describe("limiter", () => {
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  // responses are sent once `flush` is called
+  const createFetch = () => {
+    const pending: Array<() => void> = [];
+    const fetch = vi.fn(
+      (request: Request) =>
+        new Promise<Response>((resolve) => {
+          pending.push(() => resolve(new Response(request.url)));
+        }),
+    );
+    const flush = () => {
+      for (const resolve of pending.splice(0)) resolve();
+    };
+    return { fetch, flush };
+  };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should limit the global concurrency", async () => {
+    const { fetch, flush } = createFetch();
+    const kf = createKnifetch({ fetch, concurrency: 2 });
+
+    const promises = [1, 2, 3, 4, 5].map((i) => kf(`https://example.net/${i}`));
+    await tick();
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(kf.queueStats()).toMatchObject({
+      active: 2,
+      pending: 3,
+      pendingByOrigin: { "https://example.net": 3 },
+    });
+
+    flush();
+    await tick();
+    expect(fetch).toHaveBeenCalledTimes(4);
+    flush();
+    await tick();
+    flush();
+    await Promise.all(promises);
+    expect(fetch).toHaveBeenCalledTimes(5);
+    expect(kf.queueStats()).toMatchObject({ active: 0, pending: 0 });
+  });
+
+  it("should share the queue with extended instances", async () => {
+    const { fetch, flush } = createFetch();
+    const kf = createKnifetch({ fetch, concurrency: 1 });
+    const child = kf.extend({ headers: { "x-child": "1" } });
+    const own = kf.extend({ concurrency: 1 });
+
+    const promises = [
+      kf("https://example.net/1"),
+      child("https://example.net/2"),
+      own("https://example.net/3"),
+    ];
+    await tick();
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(child.queueStats()).toMatchObject({ active: 1, pending: 1 });
+    expect(own.queueStats()).toMatchObject({ active: 1, pending: 0 });
+
+    flush();
+    await tick();
+    expect(fetch).toHaveBeenCalledTimes(3);
+    flush();
+    await Promise.all(promises);
+  });
+
+  it("should limit the concurrency per origin", async () => {
+    const { fetch, flush } = createFetch();
+    const kf = createKnifetch({ fetch, concurrency: { perOrigin: 1 } });
+
+    const promises = [
+      kf("https://a.example.net/1"),
+      kf("https://a.example.net/2"),
+      kf("https://b.example.net/1"),
+    ];
+    await tick();
+    // b is not blocked by a
+    expect(fetch.mock.calls.map(([r]) => r.url)).toEqual([
+      "https://a.example.net/1",
+      "https://b.example.net/1",
+    ]);
+
+    flush();
+    await tick();
+    flush();
+    await Promise.all(promises);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("should send requests by priority", async () => {
+    const { fetch, flush } = createFetch();
+    const kf = createKnifetch({ fetch, concurrency: 1 });
+
+    const promises = [
+      kf("https://example.net/first"),
+      kf("https://example.net/low", { priority: "low" }),
+      kf("https://example.net/auto"),
+      kf("https://example.net/high", { priority: "high" }),
+    ];
+    for (let i = 0; i < 4; i++) {
+      await tick();
+      flush();
+    }
+    await Promise.all(promises);
+
+    expect(fetch.mock.calls.map(([r]) => new URL(r.url).pathname)).toEqual([
+      "/first",
+      "/high",
+      "/auto",
+      "/low",
+    ]);
+  });
+
+  it("should leave the queue once aborted", async () => {
+    const { fetch, flush } = createFetch();
+    const kf = createKnifetch({ fetch, concurrency: 1 });
+    const controller = new AbortController();
+
+    const first = kf("https://example.net/1");
+    const second = kf("https://example.net/2", { signal: controller.signal });
+    await tick();
+    expect(kf.queueStats().pending).toBe(1);
+
+    controller.abort(new Error("cancelled"));
+    await expect(second).rejects.toThrow("cancelled");
+    expect(kf.queueStats().pending).toBe(0);
+
+    flush();
+    await first;
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should limit the rate with a token bucket", async () => {
+    vi.useFakeTimers();
+    const kf = createKnifetch({
+      fetch: async (request) => new Response(request.url),
+      rateLimit: { limit: 2, interval: 1000 },
+    });
+
+    const promises = [1, 2, 3, 4].map((i) => kf(`https://example.net/${i}`));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(kf.queueStats()).toMatchObject({ pending: 2 });
+
+    // a token is refilled every 500ms
+    await vi.advanceTimersByTimeAsync(500);
+    expect(kf.queueStats()).toMatchObject({ pending: 1 });
+    await vi.advanceTimersByTimeAsync(500);
+    expect(kf.queueStats()).toMatchObject({ pending: 0 });
+    await Promise.all(promises);
+    expect(kf.queueStats().averageWaitTime).toBe(375);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it, vi } from "vitest";
+import { createKnifetch, type Middleware } from "../src";
+
+describe("middleware", () => {
+  it("should run middlewares in order around the hooks", async () => {
+    const calls: string[] = [];
+    const fetch = vi.fn(async () => {
+      calls.push("fetch");
+      return new Response("ok");
+    });
+    const logger =
+      (name: string): Middleware =>
+      async (_ctx, next) => {
+        calls.push(`${name}:before`);
+        await next();
+        calls.push(`${name}:after`);
+      };
+    const kf = createKnifetch({
+      fetch,
+      plugins: [logger("a")],
+      onRequest: () => void calls.push("onRequest"),
+      onResponse: () => void calls.push("onResponse"),
+    });
+    kf.use(logger("b"), {
+      name: "c",
+      middleware: logger("c"),
+      onRequest: () => void calls.push("c:onRequest"),
+    });
+
+    await kf("https://example.net/");
+
+    expect(calls).toEqual([
+      "a:before",
+      "b:before",
+      "c:before",
+      "c:onRequest",
+      "onRequest",
+      "fetch",
+      "onResponse",
+      "c:after",
+      "b:after",
+      "a:after",
+    ]);
+  });
+
+  it("should allow replacing the request and the response", async () => {
+    const fetch = vi.fn(
+      async (request: Request) =>
+        new Response(request.headers.get("authorization")),
+    );
+    const kf = createKnifetch({ fetch }).use(async (ctx, next) => {
+      ctx.request = new Request(ctx.request, {
+        headers: { authorization: "Bearer token" },
+      });
+      await next();
+      ctx.response = new Response(`${await ctx.response!.text()}!`);
+    });
+
+    const response = await kf("https://example.net/");
+
+    expect(await response.text()).toBe("Bearer token!");
+  });
+
+  it("should short-circuit without calling next", async () => {
+    const fetch = vi.fn();
+    const onRequest = vi.fn();
+    const kf = createKnifetch({ fetch, onRequest }).use((ctx) => {
+      ctx.response = new Response("cached");
+    });
+
+    const response = await kf("https://example.net/");
+
+    expect(await response.text()).toBe("cached");
+    expect(fetch).not.toHaveBeenCalled();
+    expect(onRequest).not.toHaveBeenCalled();
+  });
+
+  it("should handle errors with onFetchError of plugins", async () => {
+    const fetch = vi.fn(async () => {
+      throw new TypeError("fetch failed");
+    });
+    const kf = createKnifetch({ fetch }).use({
+      onFetchError: () => new Response("fallback"),
+    });
+
+    const response = await kf("https://example.net/");
+
+    expect(await response.text()).toBe("fallback");
+  });
+
+  it("should throw if next() is called multiple times", async () => {
+    const kf = createKnifetch({
+      fetch: async () => new Response("ok"),
+    }).use(async (_ctx, next) => {
+      await next();
+      await next();
+    });
+
+    await expect(kf("https://example.net/")).rejects.toThrowError(
+      "next() called multiple times",
+    );
+  });
+});
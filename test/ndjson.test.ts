@@ -0,0 +1,130 @@
+import { describe, expect, it, vi } from "vitest";
+import { createKnifetch, NDJSONParseError, parseNDJSON } from "../src";
+
+const collect = async <T>(iterable: AsyncIterable<T>) => {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+};
+
+const streamOf = (...chunks: Array<string | Uint8Array>) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(
+          typeof chunk === "string" ? new TextEncoder().encode(chunk) : chunk,
+        );
+      }
+      controller.close();
+    },
+  });
+
+describe("ndjson", () => {
+  it("should parse values across chunk boundaries", async () => {
+    const euro = new TextEncoder().encode('{"price":"€1"}\n');
+    const stream = streamOf(
+      '{"a":1}\r\n{"b"',
+      ":2}\n\n  \r\n",
+      euro.slice(0, 11),
+      euro.slice(11),
+      "[3]\n4",
+    );
+
+    expect(await collect(parseNDJSON(stream))).toEqual([
+      { a: 1 },
+      { b: 2 },
+      { price: "€1" },
+      [3],
+      // the trailing line without a line break
+      4,
+    ]);
+  });
+
+  it("should throw with the line number of the malformed line", async () => {
+    const stream = streamOf('{"a":1}\n\n{"b":\n{"c":3}\n');
+    const values: unknown[] = [];
+
+    const error: NDJSONParseError = await (async () => {
+      for await (const value of parseNDJSON(stream)) values.push(value);
+    })().catch((error) => error);
+
+    expect(error).toBeInstanceOf(NDJSONParseError);
+    expect(error.line).toBe(3);
+    expect(error.text).toBe('{"b":');
+    expect(error.message).toMatch(/^Invalid JSON at line 3: /);
+    expect(error.cause).toBeInstanceOf(SyntaxError);
+    expect(values).toEqual([{ a: 1 }]);
+  });
+
+  it("should iterate the response body", async () => {
+    const fetch = vi.fn(
+      async (_: Request) => new Response('{"id":1}\n{"id":2}\n'),
+    );
+    const kf = createKnifetch({
+      fetch,
+      transformResponse: (response) => response.status,
+    });
+
+    const rows = await collect(
+      kf("https://example.net/export").ndjson<{ id: number }>(),
+    );
+    expect(rows.map((row) => row.id)).toEqual([1, 2]);
+    expect(fetch.mock.calls[0]![0].headers.get("accept")).toBe(
+      "application/x-ndjson",
+    );
+  });
+
+  it("should cancel the body when the iteration is stopped", async () => {
+    const cancel = vi.fn();
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(new TextEncoder().encode("1\n"));
+      },
+      cancel,
+    });
+    const kf = createKnifetch({ fetch: async () => new Response(body) });
+
+    for await (const value of kf("https://example.net/logs").ndjson()) {
+      expect(value).toBe(1);
+      break;
+    }
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  it("should stream the request body", async () => {
+    const fetch = vi.fn(async (request: Request) => new Response(request.body));
+    const kf = createKnifetch({ fetch });
+    async function* rows() {
+      yield { id: 1 };
+      yield "two";
+      yield undefined;
+    }
+
+    const response = await kf("https://example.net/import", {
+      ndjson: rows(),
+    });
+    const request = fetch.mock.calls[0]![0];
+    expect(request.method).toBe("POST");
+    expect(request.headers.get("content-type")).toBe("application/x-ndjson");
+    expect(await response.text()).toBe('{"id":1}\n"two"\nnull\n');
+  });
+
+  it("should send the buffered body when retrying", async () => {
+    const bodies: string[] = [];
+    const fetch = vi.fn(async (request: Request) => {
+      bodies.push(await request.text());
+      return new Response(undefined, { status: bodies.length < 2 ? 503 : 200 });
+    });
+    const kf = createKnifetch({
+      fetch,
+      retry: { maxTries: 2, methods: ["PUT"] },
+    });
+
+    const response = await kf("https://example.net/import", {
+      method: "PUT",
+      ndjson: [1, 2],
+    });
+    expect(response.status).toBe(200);
+    expect(bodies).toEqual(["1\n2\n", "1\n2\n"]);
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, expect, it, vi } from "vitest";
+import { CookieJar, createKnifetch, parseLinkHeader } from "../src";
+
+const collect = async <T>(iterable: AsyncIterable<T>) => {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+};
+
+// a GitHub style API with 3 pages of 2 items
+const linkServer = () =>
+  vi.fn(async (request: Request) => {
+    const url = new URL(request.url);
+    const page = Number(url.searchParams.get("page") || 1);
+    const headers = new Headers({ "content-type": "application/json" });
+    if (page < 3) {
+      headers.set(
+        "link",
+        `<https://api.example.net/items?page=${page + 1}>; rel="next", <https://api.example.net/items?page=3>; rel="last"`,
+      );
+    }
+    return new Response(JSON.stringify([page * 2 - 1, page * 2]), { headers });
+  });
+
+describe("paginate", () => {
+  it("should parse Link headers", () => {
+    expect(
+      parseLinkHeader(
+        String.raw`<https://example.net/a?x=1,2>; rel="next prefetch"; title="a, \"b\"", </b>; REL=Prev; rel=ignored`,
+      ),
+    ).toEqual([
+      {
+        url: "https://example.net/a?x=1,2",
+        rel: ["next", "prefetch"],
+        params: { rel: "next prefetch", title: 'a, "b"' },
+      },
+      { url: "/b", rel: ["prev"], params: { rel: "Prev" } },
+    ]);
+  });
+
+  it("should follow the next link", async () => {
+    const fetch = linkServer();
+    const kf = createKnifetch({ fetch, baseURL: "https://api.example.net" });
+
+    expect(await collect(kf.paginate("/items"))).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(fetch.mock.calls.map(([request]) => request.url)).toEqual([
+      "https://api.example.net/items",
+      "https://api.example.net/items?page=2",
+      "https://api.example.net/items?page=3",
+    ]);
+    expect(fetch.mock.calls[0]![0].headers.get("accept")).toBe(
+      "application/json",
+    );
+  });
+
+  it("should not add the base url and query to complete urls", async () => {
+    const fetch = vi.fn(async (request: Request) => {
+      const cursor = Number(new URL(request.url).searchParams.get("cursor"));
+      return Response.json({ data: [cursor], next: cursor + 1 });
+    });
+    const kf = createKnifetch({
+      fetch,
+      baseURL: "https://api.example.net",
+      query: { per_page: 2 },
+    });
+
+    const items = kf.paginate<number>(
+      "/items",
+      {},
+      {
+        items: ({ data }) => (data as { data: number[] }).data,
+        next: ({ data }) =>
+          `https://api.example.net/items?per_page=2&cursor=${(data as { next: number }).next}`,
+        maxPages: 2,
+      },
+    );
+    expect(await collect(items)).toEqual([0, 1]);
+    expect(fetch.mock.calls.map(([request]) => request.url)).toEqual([
+      "https://api.example.net/items?per_page=2",
+      "https://api.example.net/items?per_page=2&cursor=1",
+    ]);
+  });
+
+  it("should stop on the item and page count", async () => {
+    const fetch = linkServer();
+    const kf = createKnifetch({ fetch, baseURL: "https://api.example.net" });
+
+    expect(await collect(kf.paginate("/items", {}, { limit: 3 }))).toEqual([
+      1, 2, 3,
+    ]);
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    fetch.mockClear();
+    expect(await collect(kf.paginate("/items", {}, { limit: 4 }))).toEqual([
+      1, 2, 3, 4,
+    ]);
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    expect(await collect(kf.paginate("/items", {}, { maxPages: 1 }))).toEqual([
+      1, 2,
+    ]);
+  });
+
+  it("should stop when the signal is aborted", async () => {
+    const kf = createKnifetch({ fetch: linkServer() });
+    const controller = new AbortController();
+    const items: number[] = [];
+
+    await expect(async () => {
+      for await (const item of kf.paginate<number>(
+        "https://api.example.net/items",
+        { signal: controller.signal },
+      )) {
+        items.push(item);
+        if (item === 2) controller.abort();
+      }
+    }).rejects.toThrow("aborted");
+    expect(items).toEqual([1, 2]);
+  });
+
+  it("should use custom items and next for cursors", async () => {
+    const fetch = vi.fn(async (request: Request) => {
+      const cursor = Number(new URL(request.url).searchParams.get("cursor"));
+      return Response.json({
+        data: [`item${cursor}`],
+        next: cursor < 2 ? cursor + 1 : undefined,
+      });
+    });
+    const kf = createKnifetch({ fetch });
+
+    type Page = { data: string[]; next?: number };
+    const items = kf.paginate<string>(
+      "https://api.example.net/items",
+      { query: { cursor: 0, size: 1 } },
+      {
+        items: ({ data }) => (data as Page).data,
+        next: ({ data }) => {
+          const { next } = data as Page;
+          return next !== undefined && { query: { cursor: next } };
+        },
+      },
+    );
+    expect(await collect(items)).toEqual(["item0", "item1", "item2"]);
+    expect(fetch.mock.calls.map(([request]) => request.url)).toEqual([
+      "https://api.example.net/items?cursor=0&size=1",
+      "https://api.example.net/items?cursor=1&size=1",
+      "https://api.example.net/items?cursor=2&size=1",
+    ]);
+  });
+
+  it("should reuse the cookie jar and retry of the instance", async () => {
+    let failed = false;
+    const fetch = vi.fn(async (request: Request) => {
+      const page = Number(new URL(request.url).searchParams.get("page") || 1);
+      if (page === 2 && !failed) {
+        failed = true;
+        return new Response(undefined, { status: 503 });
+      }
+      return Response.json([request.headers.get("cookie") ?? ""], {
+        headers: {
+          "set-cookie": `page=${page}`,
+          ...(page < 2 && { link: "</items?page=2>; rel=next" }),
+        },
+      });
+    });
+    const kf = createKnifetch({
+      fetch,
+      baseURL: "https://api.example.net",
+      cookieJar: new CookieJar(),
+      retry: { maxTries: 2 },
+    });
+
+    // the relative link is requested with the base url
+    expect(await collect(kf.paginate("/items"))).toEqual(["", "page=1"]);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not follow a next link to another origin unless allowed", async () => {
+    const fetch = vi.fn(async (request: Request) =>
+      request.url.startsWith("https://evil.example")
+        ? Response.json([2])
+        : Response.json([1], {
+            headers: { link: '<https://evil.example/steal>; rel="next"' },
+          }),
+    );
+    const kf = createKnifetch({
+      fetch,
+      baseURL: "https://api.example.net",
+      auth: { type: "bearer", token: "secret" },
+    });
+
+    await expect(collect(kf.paginate("/items"))).rejects.toThrow(
+      "another origin than the first page",
+    );
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    expect(
+      await collect(
+        kf.paginate("/items", {}, { allowCrossOrigin: true, maxPages: 2 }),
+      ),
+    ).toEqual([1, 2]);
+    expect(fetch.mock.calls[2]![0].url).toBe("https://evil.example/steal");
+  });
+
+  it("should throw if the page is not an array", async () => {
+    const kf = createKnifetch({
+      fetch: async () => Response.json({ items: [] }),
+    });
+    await expect(
+      collect(kf.paginate("https://api.example.net/items")),
+    ).rejects.toThrow(TypeError);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from "vitest";
+import { createKnifetch, type Progress } from "../src";
+
+const stream = (...chunks: string[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(new TextEncoder().encode(chunk));
+      }
+      controller.close();
+    },
+  });
+
+describe("progress", () => {
+  it("should report download progress", async () => {
+    const progress: Progress[] = [];
+    const kf = createKnifetch({
+      fetch: async () =>
+        new Response(stream("hello", " ", "world"), {
+          headers: { "content-length": "11" },
+        }),
+      transformResponse: (response) => response.text(),
+    });
+
+    const text = await kf("https://example.net/", {
+      onDownloadProgress: (p) => progress.push(p),
+    });
+
+    expect(text).toBe("hello world");
+    expect(progress.map((p) => p.transferredBytes)).toEqual([0, 5, 6, 11]);
+    expect(progress.at(-1)).toEqual({
+      transferredBytes: 11,
+      totalBytes: 11,
+      percent: 1,
+    });
+  });
+
+  it("should report the total once done if it is unknown", async () => {
+    const progress: Progress[] = [];
+    const kf = createKnifetch({
+      fetch: async () => new Response(stream("hello", "world")),
+    });
+
+    const text = await kf("https://example.net/", {
+      onDownloadProgress: (p) => progress.push(p),
+    }).text();
+
+    expect(text).toBe("helloworld");
+    expect(progress.map((p) => p.percent)).toEqual([0, 0, 0, 1]);
+    expect(progress.at(-1)?.totalBytes).toBe(10);
+  });
+
+  it("should keep the url of the response", async () => {
+    const response = Response.json({ ok: true });
+    Object.defineProperty(response, "url", { value: "https://example.net/" });
+    const kf = createKnifetch({ fetch: async () => response });
+
+    const tracked = await kf("https://example.net/", {
+      onDownloadProgress: () => {},
+    });
+
+    expect(tracked.url).toBe("https://example.net/");
+    expect(tracked.headers.get("content-type")).toBe("application/json");
+    expect(await tracked.json()).toEqual({ ok: true });
+  });
+
+  it("should report upload progress", async () => {
+    const onUploadProgress = vi.fn();
+    const kf = createKnifetch({
+      fetch: async (request) => new Response(await request.text()),
+    });
+
+    const response = await kf("https://example.net/", {
+      method: "POST",
+      body: "hello world",
+      onUploadProgress,
+    });
+
+    expect(await response.text()).toBe("hello world");
+    expect(onUploadProgress).toHaveBeenLastCalledWith({
+      transferredBytes: 11,
+      totalBytes: 11,
+      percent: 1,
+    });
+  });
+
+  it("should report upload progress for each attempt", async () => {
+    const onUploadProgress = vi.fn();
+    let attempts = 0;
+    const kf = createKnifetch({
+      fetch: async (request) => {
+        await request.text();
+        return new Response(undefined, { status: ++attempts < 2 ? 503 : 200 });
+      },
+    });
+
+    await kf("https://example.net/", {
+      method: "PUT",
+      json: { hello: "world" },
+      retry: 2,
+      onUploadProgress,
+    });
+
+    const done = onUploadProgress.mock.calls.filter(([p]) => p.percent === 1);
+    expect(done).toHaveLength(2);
+    expect(done[0]![0].totalBytes).toBe(17);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from "vitest";
+import { createKnifetch, HttpError } from "../src";
+
+describe("ResponsePromise", () => {
+  const fetch = vi.fn(async (request: Request) => {
+    const status = Number(new URL(request.url).searchParams.get("status"));
+    if (status === 204) return new Response(undefined, { status });
+    return Response.json(
+      { accept: request.headers.get("accept") },
+      { status: status || 200 },
+    );
+  });
+
+  it("should parse the body with a matching Accept header", async () => {
+    const kf = createKnifetch({ fetch });
+
+    expect(await kf("https://example.net/").json()).toEqual({
+      accept: "application/json",
+    });
+    expect(await kf("https://example.net/").text()).toBe(`{"accept":"text/*"}`);
+    expect(
+      await kf("https://example.net/", {
+        headers: { accept: "application/vnd.api+json" },
+      }).json<{ accept: string }>(),
+    ).toEqual({ accept: "application/vnd.api+json" });
+    expect(await kf("https://example.net/").blob()).toBeInstanceOf(Blob);
+    expect(
+      (await kf("https://example.net/").arrayBuffer()).byteLength,
+    ).toBeGreaterThan(0);
+  });
+
+  it("should handle empty bodies", async () => {
+    const kf = createKnifetch({ fetch });
+
+    expect(
+      await kf("https://example.net/", { query: { status: 204 } }).json(),
+    ).toBeUndefined();
+    expect(
+      await kf("https://example.net/", { query: { status: 204 } }).formData(),
+    ).toBeInstanceOf(FormData);
+  });
+
+  it("should skip transformResponse", async () => {
+    const transformResponse = vi.fn(() => "transformed");
+    const kf = createKnifetch({ fetch, transformResponse });
+
+    expect(await kf("https://example.net/")).toBe("transformed");
+    expect(await kf("https://example.net/").json()).toEqual({
+      accept: "application/json",
+    });
+    expect(transformResponse).toHaveBeenCalledTimes(1);
+  });
+
+  it("should skip transformResponse for shortcuts called later", async () => {
+    const transformResponse = vi.fn(() => "transformed");
+    const kf = createKnifetch({ fetch, transformResponse });
+
+    const promise = kf("https://example.net/");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    // the request is sent before the shortcut is called
+    expect(await promise.json()).toHaveProperty("accept");
+    expect(transformResponse).not.toHaveBeenCalled();
+  });
+
+  it("should reject with HttpError", async () => {
+    const kf = createKnifetch({ fetch, throwHttpErrors: true });
+
+    await expect(
+      kf("https://example.net/", { query: { status: 500 } }).json(),
+    ).rejects.toBeInstanceOf(HttpError);
+  });
+});
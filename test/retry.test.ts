@@ -100,4 +100,77 @@ describe("retry", () => {
     expect(onAttemptFailed).toHaveBeenCalledTimes(2);
     expect(onAttemptFailed).toHaveBeenCalledWith(expect.any(Error), 1);
   });
+
+  it("should stop retrying when shouldRetry returns false", async () => {
+    const mockFn = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("retryable"))
+      .mockRejectedValueOnce(new Error("fatal"));
+    const shouldRetry = vi.fn(
+      ({ error }) => (error as Error).message === "retryable",
+    );
+
+    await expect(retry(mockFn, { shouldRetry })).rejects.toThrowError(
+      new Error("fatal"),
+    );
+    expect(mockFn).toHaveBeenCalledTimes(2);
+  });
+
+  it("should return the value when shouldRetry returns false after predicate failure", async () => {
+    const mockFn = vi.fn().mockResolvedValue("resolved");
+
+    const result = await retry(mockFn, {
+      predicate: () => false,
+      shouldRetry: ({ attemptedTimes }) => attemptedTimes < 2,
+    });
+
+    expect(result).toBe("resolved");
+    expect(mockFn).toHaveBeenCalledTimes(2);
+  });
+
+  it("should abort the attempt signal on timeout", async () => {
+    const signals: AbortSignal[] = [];
+    const mockFn = vi.fn(
+      (signal: AbortSignal) =>
+        new Promise((_, reject) => {
+          signals.push(signal);
+          signal.addEventListener("abort", () => reject(signal.reason));
+        }),
+    );
+
+    await expect(
+      retry(mockFn, { timeout: 50, maxTries: 2 }),
+    ).rejects.toThrowError(new RetryError("MAX_RETRIES_REACHED"));
+
+    expect(signals).toHaveLength(2);
+    expect(signals[0]).not.toBe(signals[1]);
+    for (const signal of signals) {
+      expect(signal.aborted).toBe(true);
+      expect(signal.reason).toStrictEqual(
+        new RetryError("ATTEMPT_TIMEOUT_REACHED"),
+      );
+    }
+  });
+
+  it("should abort the in-flight attempt and keep the abort reason", async () => {
+    const controller = new AbortController();
+    const reason = new Error("cancelled by user");
+    let attemptSignal: AbortSignal | undefined;
+
+    const promise = retry(
+      (signal) => {
+        attemptSignal = signal;
+        return new Promise(() => {});
+      },
+      { signal: controller.signal },
+    );
+    controller.abort(reason);
+
+    await expect(promise).rejects.toThrowError(
+      new RetryError("RETRY_IS_ABORTED"),
+    );
+    await expect(promise).rejects.toHaveProperty("cause", reason);
+    expect(attemptSignal?.aborted).toBe(true);
+    expect(attemptSignal?.reason).toBe(reason);
+  });
 });
@@ -0,0 +1,108 @@
+import { describe, expect, expectTypeOf, it, vi } from "vitest";
+import {
+  createKnifetch,
+  SchemaValidationError,
+  type StandardSchemaV1,
+} from "../src";
+
+interface User {
+  id: number;
+  name: string;
+}
+
+/**
+ * A minimal Standard Schema, like the ones of zod or valibot
+ */
+const userSchema: StandardSchemaV1<unknown, User> = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate(value) {
+      const user = value as Partial<User> | undefined;
+      if (typeof user?.id !== "number") {
+        return { issues: [{ message: "Expected number", path: ["id"] }] };
+      }
+      return { value: { id: user.id, name: String(user.name) } };
+    },
+  },
+};
+
+describe("schema", () => {
+  const fetch = vi.fn(async (request: Request) => {
+    const id = new URL(request.url).searchParams.get("id");
+    return Response.json({
+      id: id ? Number(id) : "unknown",
+      name: "knifetch",
+      accept: request.headers.get("accept"),
+    });
+  });
+
+  it("should validate the JSON body", async () => {
+    const kf = createKnifetch({ fetch });
+
+    const user = await kf("https://example.net/", {
+      query: { id: 1 },
+      schema: userSchema,
+    });
+
+    expectTypeOf(user).toEqualTypeOf<User>();
+    expect(user).toEqual({ id: 1, name: "knifetch" });
+    expect(fetch.mock.calls[0]![0].headers.get("accept")).toBe(
+      "application/json",
+    );
+  });
+
+  it("should throw SchemaValidationError", async () => {
+    const kf = createKnifetch({ fetch });
+
+    const error: SchemaValidationError = await kf("https://example.net/", {
+      schema: userSchema,
+    }).catch((error) => error);
+
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error.message).toBe(
+      "Response body failed schema validation (Expected number): https://example.net/",
+    );
+    expect(error.issues).toEqual([
+      { message: "Expected number", path: ["id"] },
+    ]);
+    expect(error.request?.url).toBe("https://example.net/");
+    expect(error.body).toEqual({
+      id: "unknown",
+      name: "knifetch",
+      accept: "application/json",
+    });
+    expect(error.rawBody).toBe(
+      '{"id":"unknown","name":"knifetch","accept":"application/json"}',
+    );
+  });
+
+  it("should throw SchemaValidationError if the body is not JSON", async () => {
+    const kf = createKnifetch({
+      fetch: async () => new Response("<html>Bad Gateway</html>"),
+    });
+
+    const error: SchemaValidationError = await kf("https://example.net/", {
+      schema: userSchema,
+    }).catch((error) => error);
+
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error.issues[0]!.message).toMatch(/^Invalid JSON/);
+    expect(error.request?.url).toBe("https://example.net/");
+    expect(error.rawBody).toBe("<html>Bad Gateway</html>");
+    expect(error.cause).toBeInstanceOf(SyntaxError);
+  });
+
+  it("should validate the output of transformResponse", async () => {
+    const transformResponse = vi.fn(async (response: Response) => ({
+      ...(await response.json()),
+      id: 2,
+    }));
+    const kf = createKnifetch({ fetch, transformResponse });
+
+    const user = await kf("https://example.net/", { schema: userSchema });
+
+    expect(user).toEqual({ id: 2, name: "knifetch" });
+    expect(transformResponse).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,158 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createKnifetch, EventStreamParser, HttpError } from "../src";
+
+const collect = async <T>(iterable: AsyncIterable<T>) => {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+};
+
+const eventStream = (body: BodyInit) =>
+  new Response(body, { headers: { "content-type": "text/event-stream" } });
+
+describe("sse", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should parse the event stream framing", () => {
+    const parser = new EventStreamParser();
+    const chunks = [
+      ": keep alive\n",
+      "data: first\ndata:second\r",
+      "\n\r\nevent: update\nid: 1\nretry: 500\ndata\ndata:  x\n",
+      "unknown: field\n\nid: a\0b\ndata: 2\n\ndata: incomplete",
+    ];
+    const events = chunks.flatMap((chunk) => parser.feed(chunk));
+
+    expect(events).toEqual([
+      { event: "message", data: "first\nsecond", id: "" },
+      { event: "update", data: "\n x", id: "1", retry: 500 },
+      // an id with NUL is ignored
+      { event: "message", data: "2", id: "1" },
+    ]);
+    expect(parser.lastEventId).toBe("1");
+    expect(parser.retry).toBe(500);
+  });
+
+  it("should send the request through the pipeline", async () => {
+    const fetch = vi.fn(async (_: Request) =>
+      eventStream('data: {"token":"a"}\n\ndata: {"token":"b"}\n\n'),
+    );
+    const kf = createKnifetch({
+      fetch,
+      onRequest: ({ request }) => {
+        request.headers.set("x-hook", "1");
+      },
+    });
+
+    const events = kf.sse(
+      "https://example.net/chat",
+      { json: { prompt: "hi" } },
+      {
+        parse: (data) => JSON.parse(data) as { token: string },
+        maxReconnects: 0,
+      },
+    );
+    const tokens = (await collect(events)).map((event) => event.data.token);
+    expect(tokens).toEqual(["a", "b"]);
+
+    const request = fetch.mock.calls[0]![0];
+    expect(request.method).toBe("POST");
+    expect(await request.json()).toEqual({ prompt: "hi" });
+    expect(request.headers.get("accept")).toBe("text/event-stream");
+    expect(request.headers.get("x-hook")).toBe("1");
+  });
+
+  it("should reconnect with Last-Event-ID after the retry interval", async () => {
+    vi.useFakeTimers();
+    const fetch = vi.fn(async (request: Request) =>
+      request.headers.has("last-event-id")
+        ? eventStream(`data: ${request.headers.get("last-event-id")}\n\n`)
+        : eventStream("retry: 1000\nid: 1\ndata: a\n\n"),
+    );
+    const kf = createKnifetch({ fetch });
+
+    const events: string[] = [];
+    const done = (async () => {
+      for await (const event of kf.sse("https://example.net/", {})) {
+        events.push(event.data);
+        if (events.length === 2) break;
+      }
+    })();
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await done;
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(events).toEqual(["a", "1"]);
+  });
+
+  it("should reconnect when the connection is lost", async () => {
+    let connections = 0;
+    const fetch = vi.fn(async () => {
+      if (++connections > 1) return new Response(undefined, { status: 204 });
+      const chunks = ["data: a\n\n", "data: lost"];
+      const body = new ReadableStream({
+        pull(controller) {
+          const chunk = chunks.shift();
+          if (chunk) controller.enqueue(new TextEncoder().encode(chunk));
+          else controller.error(new TypeError("terminated"));
+        },
+      });
+      return eventStream(body);
+    });
+    const kf = createKnifetch({ fetch });
+
+    const events = await collect(
+      kf.sse("https://example.net/", {}, { retry: 1 }),
+    );
+    // the server stops the stream with 204
+    expect(events.map((event) => event.data)).toEqual(["a"]);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should stop after the maximum number of reconnections", async () => {
+    const fetch = vi.fn(async () => eventStream(""));
+    const kf = createKnifetch({ fetch });
+
+    await collect(
+      kf.sse("https://example.net/", {}, { retry: 1, maxReconnects: 2 }),
+    );
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("should throw for invalid responses", async () => {
+    const kf = createKnifetch({
+      fetch: async (input) =>
+        String((input as Request).url).endsWith("/json")
+          ? Response.json({})
+          : new Response("not found", { status: 404 }),
+    });
+
+    await expect(collect(kf.sse("https://example.net/json"))).rejects.toThrow(
+      TypeError,
+    );
+    const error: HttpError = await collect(
+      kf.sse("https://example.net/missing"),
+    ).catch((error) => error);
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.response.status).toBe(404);
+    expect(error.request?.url).toBe("https://example.net/missing");
+    expect(error.request?.headers.get("accept")).toBe("text/event-stream");
+  });
+
+  it("should retry the connection with the retry option", async () => {
+    const fetch = vi
+      .fn<() => Promise<Response>>()
+      .mockResolvedValueOnce(new Response(undefined, { status: 503 }))
+      .mockResolvedValue(eventStream("data: ok\n\n"));
+    const kf = createKnifetch({ fetch, retry: { maxTries: 2 } });
+
+    const events = await collect(
+      kf.sse("https://example.net/", {}, { maxReconnects: 0 }),
+    );
+    expect(events.map((event) => event.data)).toEqual(["ok"]);
+  });
+});